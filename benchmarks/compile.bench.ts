@@ -0,0 +1,85 @@
+import { bench, describe } from "vitest";
+import {
+  mapperx,
+  mapperxAsync,
+  compileMapper,
+  compileMapperAsync,
+  mxs,
+  mxc,
+  type MapperxSchema,
+} from "../src";
+
+interface RowDto {
+  row_id: number;
+  customer: { name: string; country: { code: string } };
+  amount: string;
+  qty: string;
+  lines: Array<{ sku: string; price: string }>;
+}
+
+interface Row {
+  id: number;
+  customerName: string;
+  country: string;
+  amount: number;
+  qty: number;
+  total: number;
+  lines: Array<{ sku: string; price: number }>;
+}
+
+const schema: MapperxSchema<RowDto, Row> = {
+  id: "row_id",
+  customerName: { from: "customer.name", validate: mxs.string },
+  country: { from: "customer.country.code" },
+  amount: { from: "amount", validate: mxs.number },
+  qty: { from: "qty", validate: mxs.number },
+  total: mxc((m) => m.amount! * m.qty!),
+  lines: {
+    from: "lines",
+    each: { sku: "sku", price: { from: "price", validate: mxs.number } },
+  },
+};
+
+const rows: RowDto[] = Array.from({ length: 10_000 }, (_, i) => ({
+  row_id: i,
+  customer: { name: `Customer ${i}`, country: { code: "EC" } },
+  amount: String(i * 1.5),
+  qty: String(i % 10),
+  lines: [
+    { sku: `A${i}`, price: "1.5" },
+    { sku: `B${i}`, price: "2.5" },
+  ],
+}));
+
+describe("sync mapping (10k rows)", () => {
+  const mapRow = compileMapper(schema);
+
+  // Schema nuevo en cada llamada: mide el coste de compilar por llamada
+  bench("mapperx (compile per call)", () => {
+    for (const row of rows) mapperx<RowDto, Row>(row, { ...schema });
+  });
+
+  bench("mapperx (plan cached per schema)", () => {
+    for (const row of rows) mapperx(row, schema);
+  });
+
+  bench("compileMapper (compiled once)", () => {
+    for (const row of rows) mapRow(row);
+  });
+});
+
+describe("async mapping (10k rows)", () => {
+  const mapRow = compileMapperAsync<RowDto, Row>(schema);
+
+  bench("mapperxAsync (compile per call)", async () => {
+    for (const row of rows) await mapperxAsync<RowDto, Row>(row, { ...schema });
+  });
+
+  bench("mapperxAsync (plan cached per schema)", async () => {
+    for (const row of rows) await mapperxAsync(row, schema);
+  });
+
+  bench("compileMapperAsync (compiled once)", async () => {
+    for (const row of rows) await mapRow(row);
+  });
+});
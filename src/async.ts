@@ -2,28 +2,88 @@
 // MAPPERX-TS - ASYNC MODULE
 // ============================================================================
 
-import { MapperxOptions, MapperxError, MapperxComputed } from "./core";
-import { Path } from "./types";
+import {
+  MapperxOptions,
+  MapperxError,
+  MapperxComputed,
+  MapperxAggregateError,
+  MapperxAbortError,
+  MapperxTimeoutError,
+  MapperxRetryError,
+  MapperxSafeResult,
+  collectFieldError,
+  toFieldError,
+  toItemError,
+  assertArrayItem,
+  toSafeFailure,
+  getDeepValue,
+  readSourceValues,
+  MapperxSourcePolicy,
+  reportUnmappedFields,
+  withStrictErrors,
+  notifyField,
+  notifyFieldError,
+  MapperxFieldHook,
+  childOptions,
+  childScope,
+  createFieldContext,
+  MapperxScope,
+  MapperxDiscriminatedSchema,
+  selectVariant,
+  MapperxContext,
+  getCompiledSchema,
+  inSchemaOrder,
+  CompiledSchema,
+  CompiledField,
+} from "./core";
+import { Path, ArrayElement } from "./types";
 
 /**
  * Validador asíncrono - puede retornar valor o Promise
  */
-export type AsyncMapperxValidator<T> = (val: unknown) => T | Promise<T>;
+export type AsyncMapperxValidator<T> = (
+  val: unknown,
+  ctx?: MapperxContext
+) => T | Promise<T>;
 
 /**
  * Transformador asíncrono - puede retornar valor o Promise
  */
-export type AsyncMapperxTransform<In, Out> = (
+export type AsyncMapperxTransform<In, Out, Api = any, Ctx = any> = (
   val: In,
-  src?: any
+  src?: any,
+  ctx?: MapperxContext<Api, Ctx>
 ) => Out | Promise<Out>;
 
+/**
+ * Transformación asíncrona de un campo del schema (con contexto)
+ */
+export type AsyncMapperxFieldTransform<Out, Api = any, Ctx = any> = (
+  val: any,
+  src: any,
+  ctx: MapperxContext<Api, Ctx>
+) => Out | Promise<Out>;
+
+/**
+ * Validación asíncrona de un campo del schema (con contexto tipado)
+ */
+export type AsyncMapperxFieldValidator<Api = any, Ctx = any> = (
+  val: unknown,
+  ctx: MapperxContext<Api, Ctx>
+) => unknown;
+
 /**
  * Computed asíncrono - puede retornar valor o Promise
  */
-export type AsyncMapperxComputed<Ui, K extends keyof Ui> = (
+export type AsyncMapperxComputed<
+  Ui,
+  K extends keyof Ui,
+  Api = any,
+  Ctx = any
+> = (
   mapped: Partial<Ui>,
-  src: any
+  src: any,
+  ctx: MapperxContext<Api, Ctx>
 ) => Ui[K] | Promise<Ui[K]>;
 
 // ============================================================================
@@ -33,313 +93,713 @@ export type AsyncMapperxComputed<Ui, K extends keyof Ui> = (
 /**
  * Especificación de campo objeto (con validación/transformación)
  */
-export interface AsyncObjectFieldSpec<Api, Ui, K extends keyof Ui> {
-  from: Path<Api>;
-  validate?: AsyncMapperxValidator<any>;
-  transform?: AsyncMapperxTransform<any, Ui[K]>;
+export interface AsyncObjectFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
+  from: Path<Api> | readonly Path<Api>[];
+  policy?: MapperxSourcePolicy;
+  validate?: AsyncMapperxFieldValidator<Api, Ctx>;
+  transform?: AsyncMapperxFieldTransform<Ui[K], Api, Ctx>;
   default?: Ui[K];
   required?: boolean;
   nullable?: boolean;
+  /** Timeout (ms) para validate + transform; falla con MapperxTimeoutError */
+  timeoutMs?: number;
 }
 
 /**
  * Especificación de campo anidado (nested schema)
  */
-export interface AsyncNestedFieldSpec<Api, Ui, K extends keyof Ui> {
+export interface AsyncNestedFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
   from: Path<Api>;
-  schema: AsyncMapperxSchema<any, Ui[K]>;
+  schema: AsyncMapperxSchemaLike<any, Ui[K], Ctx>;
   required?: boolean;
   default?: Ui[K];
 }
 
+/**
+ * Especificación de campo array de objetos (cada elemento con schema async)
+ */
+export interface AsyncArrayFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
+  from: Path<Api>;
+  each: AsyncMapperxSchemaLike<any, ArrayElement<Ui[K]>, Ctx>;
+  required?: boolean;
+  default?: Ui[K];
+  skipInvalidItems?: boolean;
+}
+
 /**
  * Especificación de campo computado (puede ser async)
  */
-export interface AsyncComputedFieldSpec<Ui, K extends keyof Ui> {
-  computed: AsyncMapperxComputed<Ui, K>;
+export interface AsyncComputedFieldSpec<Ui, K extends keyof Ui, Ctx = any> {
+  computed: AsyncMapperxComputed<Ui, K, any, Ctx>;
   default?: Ui[K];
+  /** Computados que deben evaluarse antes (los independientes van en paralelo) */
+  dependsOn?: ReadonlyArray<keyof Ui>;
+  /** Timeout (ms) del cálculo; falla con MapperxTimeoutError */
+  timeoutMs?: number;
 }
 
 /**
  * CORRECCIÓN: Union type bien definido para specs async
  */
-export type AsyncMapperxFieldSpec<Api, Ui, K extends keyof Ui = keyof Ui> =
+export type AsyncMapperxFieldSpec<
+  Api,
+  Ui,
+  K extends keyof Ui = keyof Ui,
+  Ctx = any
+> =
   | keyof Api // Mapeo directo
-  | AsyncObjectFieldSpec<Api, Ui, K> // Con validación/transformación
-  | AsyncNestedFieldSpec<Api, Ui, K> // Nested schema
-  | AsyncComputedFieldSpec<Ui, K>; // Computado (puede ser async)
+  | AsyncObjectFieldSpec<Api, Ui, K, Ctx> // Con validación/transformación
+  | AsyncNestedFieldSpec<Api, Ui, K, Ctx> // Nested schema
+  | AsyncArrayFieldSpec<Api, Ui, K, Ctx> // Array de objetos
+  | AsyncComputedFieldSpec<Ui, K, Ctx>; // Computado (puede ser async)
 
 /**
- * Schema completo para mapeo asíncrono
+ * Schema completo para mapeo asíncrono (Ctx: ver MapperxSchema)
  */
-export type AsyncMapperxSchema<Api, Ui> = {
-  [K in keyof Ui]: AsyncMapperxFieldSpec<Api, Ui, K>;
+export type AsyncMapperxSchema<Api, Ui, Ctx = any> = {
+  [K in keyof Ui]: AsyncMapperxFieldSpec<Api, Ui, K, Ctx>;
 };
 
+/**
+ * Schema async normal o discriminado (mxDiscriminated)
+ */
+export type AsyncMapperxSchemaLike<Api, Ui, Ctx = any> =
+  | AsyncMapperxSchema<Api, Ui, Ctx>
+  | MapperxDiscriminatedSchema<Api, Ui>;
+
 // ============================================================================
-// TYPE GUARDS MEJORADOS
+// HELPER FUNCTIONS
 // ============================================================================
+// NOTA: La clasificación de campos (type guards) y la lectura de paths
+// se comparten con el mapper síncrono a través de compileSchema (core.ts)
 
-function isNestedSpec<Api, Ui, K extends keyof Ui>(
-  spec: AsyncMapperxFieldSpec<Api, Ui, K>
-): spec is AsyncNestedFieldSpec<Api, Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "schema" in spec &&
-    "from" in spec &&
-    !("computed" in spec) &&
-    !("validate" in spec) &&
-    !("transform" in spec)
-  );
+/**
+ * Verifica si un valor es una Promise
+ */
+function isPromise<T>(value: any): value is Promise<T> {
+  return value && typeof value.then === "function";
 }
 
-function isObjectSpec<Api, Ui, K extends keyof Ui>(
-  spec: AsyncMapperxFieldSpec<Api, Ui, K>
-): spec is AsyncObjectFieldSpec<Api, Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "from" in spec &&
-    !("schema" in spec) &&
-    !("computed" in spec)
-  );
+/**
+ * Espera `ms` milisegundos (se interrumpe si el signal se cancela)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
-function isComputedSpec<Api, Ui, K extends keyof Ui>(
-  spec: AsyncMapperxFieldSpec<Api, Ui, K>
-): spec is AsyncComputedFieldSpec<Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "computed" in spec &&
-    !("from" in spec) &&
-    !("schema" in spec)
-  );
+/**
+ * Espera una promesa compartida, pero rechaza en cuanto se cancela el signal
+ * de este llamador (la promesa sigue su curso para los demás)
+ */
+function raceSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", abort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", abort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", abort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Ejecuta los callbacks de un campo con cancelación y timeout opcional
+ * - El callback recibe un signal que se cancela si el padre se cancela
+ *   o si se supera `timeoutMs` (razón: MapperxTimeoutError)
+ * - Si el callback ignora el signal, la espera se corta igualmente
+ */
+async function runGuarded<T>(
+  fn: (signal: AbortSignal | undefined) => T | Promise<T>,
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): Promise<T> {
+  // Sin cancelación ni timeout: ejecución directa
+  if (!parent && timeoutMs === undefined) {
+    const result = fn(undefined);
+    return isPromise<T>(result) ? await result : result;
+  }
+
+  if (parent?.aborted) throw parent.reason;
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  parent?.addEventListener("abort", onParentAbort, { once: true });
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(
+          () => controller.abort(new MapperxTimeoutError(timeoutMs)),
+          timeoutMs
+        )
+      : undefined;
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      "abort",
+      () => reject(controller.signal.reason),
+      { once: true }
+    );
+  });
+
+  try {
+    const result = fn(controller.signal);
+    return isPromise<T>(result)
+      ? await Promise.race([result, aborted])
+      : result;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener("abort", onParentAbort);
+  }
 }
 
-function isDirectMapping<Api>(spec: any): spec is keyof Api {
-  return typeof spec === "string" || typeof spec === "symbol";
+/**
+ * Mapea cada elemento de un array de objetos con su schema async
+ * (mismas reglas que en el mapper síncrono)
+ */
+async function mapArrayItemsAsync(
+  items: unknown,
+  field: CompiledField,
+  options: MapperxAsyncOptions,
+  scope: MapperxScope
+): Promise<any[]> {
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected array, got ${typeof items}`);
+  }
+
+  const result: any[] = [];
+  const errors: MapperxError[] = [];
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+
+    try {
+      assertArrayItem(item);
+      result.push(
+        await runSchemaAsync(
+          field.child!,
+          item,
+          childOptions(options),
+          childScope(scope, field.key, index)
+        )
+      );
+    } catch (e) {
+      if (field.spec.skipInvalidItems) continue;
+
+      const itemErrors = toItemError(index, e, item);
+      if (!options.collectErrors) throw itemErrors[0];
+      errors.push(...itemErrors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new MapperxAggregateError(errors, result);
+  }
+
+  return result;
 }
 
 // ============================================================================
-// HELPER FUNCTIONS
+// MAIN ASYNC MAPPER - TIPADO FUERTE
 // ============================================================================
 
 /**
- * Obtiene valor de un path anidado de forma segura
+ * Opciones del mapper asíncrono
  */
-function getDeepValue(obj: any, path: string): any {
-  const parts = path.split(".");
-  let current = obj;
+export interface MapperxAsyncOptions<Ctx = any> extends MapperxOptions<Ctx> {
+  /**
+   * Timeout global del mapeo (ms). Al vencer, el campo en curso falla con
+   * un MapperxTimeoutError (envuelto en MapperxError)
+   */
+  timeoutMs?: number;
 
-  for (const part of parts) {
-    if (current == null) return undefined;
-    if (!(part in current)) return undefined;
-    current = current[part];
-  }
+  /**
+   * Cancela el mapeo (ej. cuando se aborta la petición HTTP que lo originó)
+   * Llega a cada callback async como `ctx.signal`
+   */
+  signal?: AbortSignal;
 
-  return current;
+  /**
+   * Evalúa los campos regulares y anidados en paralelo
+   * - true: todos a la vez
+   * - número: máximo de campos evaluándose a la vez (entero >= 1)
+   * Las keys del resultado y los errores son los mismos que en secuencial
+   * Sin collectErrors ni skipInvalid, tras el primer fallo no se inician
+   * más campos (los que ya están en curso terminan)
+   */
+  parallelFields?: boolean | number;
 }
 
 /**
- * Verifica si un valor es una Promise
+ * Resultado de evaluar un campo (se aplica a `out` en el orden del schema)
  */
-function isPromise<T>(value: any): value is Promise<T> {
-  return value && typeof value.then === "function";
+interface FieldOutcome {
+  field: CompiledField;
+  sourceVal: any; // Valor leído del source
+  set: boolean; // Si el campo produjo un valor
+  value?: any; // Valor final (si set)
+  failed: boolean; // Si el campo lanzó un error
+  error?: unknown; // Error lanzado (si failed)
+  hook?: MapperxFieldHook; // Hook a notificar al aplicar el resultado
 }
 
-// ============================================================================
-// MAIN ASYNC MAPPER - TIPADO FUERTE
-// ============================================================================
+/**
+ * Valida un límite de concurrencia (concurrency, parallelFields)
+ * Con NaN, 0 o negativos no se crearía ningún worker y el resultado
+ * quedaría vacío sin avisar
+ */
+function assertConcurrency(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`${name} must be a positive integer, got ${value}`);
+  }
+}
 
 /**
- * Mapper asíncrono principal
- * Soporta validadores, transformadores y computeds asíncronos
+ * Ejecuta `fn` sobre cada item con un máximo de `limit` a la vez
+ * Los resultados conservan el orden de entrada
+ * Si `stop` devuelve true no se programan más items (los que están en curso
+ * terminan; los no programados quedan como huecos en el resultado)
  */
-export async function mapperxAsync<Api extends object, Ui extends object>(
-  api: Api,
-  schema: AsyncMapperxSchema<Api, Ui>,
-  options: MapperxOptions = {}
-): Promise<Ui> {
-  const out = {} as Record<string, any>;
-  const computedFields: Array<keyof Ui> = [];
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+  stop?: (result: R) => boolean
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !stopped) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+      if (stop?.(results[index])) stopped = true;
+    }
+  };
 
-  // FASE 1: Procesar campos regulares y anidados
-  for (const key of Object.keys(schema) as Array<keyof Ui>) {
-    const spec = schema[key];
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
 
-    // Separar campos computados para procesar después
-    if (isComputedSpec(spec)) {
-      computedFields.push(key);
-      continue;
+/**
+ * Evalúa un campo regular, anidado o array (FASE 1)
+ * No escribe en el objeto de salida: retorna el resultado para que se
+ * aplique en el orden del schema (igual en modo secuencial y paralelo)
+ */
+async function evaluateFieldAsync(
+  field: CompiledField,
+  api: any,
+  options: MapperxAsyncOptions,
+  scope: MapperxScope
+): Promise<FieldOutcome> {
+  const { key, spec } = field;
+  let sourceVal: any;
+
+  // Helpers para construir el resultado
+  // Los hooks se notifican al aplicar el resultado (fuera de este try)
+  const mapped = (value: any): FieldOutcome => ({
+    field,
+    sourceVal,
+    set: true,
+    value,
+    failed: false,
+    hook: "onFieldMapped",
+  });
+  const missing = (
+    message: string,
+    required: boolean = spec.required !== false
+  ): FieldOutcome => {
+    if ("default" in spec && spec.default !== undefined) {
+      return {
+        field,
+        sourceVal,
+        set: true,
+        value: spec.default,
+        failed: false,
+        hook: "onDefaultUsed",
+      };
+    }
+    if (required) {
+      throw new Error(message);
     }
+    return {
+      field,
+      sourceVal,
+      set: false,
+      failed: false,
+      hook: "onFieldSkipped",
+    };
+  };
 
-    let sourceField: string;
-    let sourceVal: any;
+  try {
+    // Mapeo cancelado (signal del usuario o timeout global)
+    if (options.signal?.aborted) throw options.signal.reason;
 
-    try {
-      // CASO 1: Mapeo anidado (nested schema)
-      if (isNestedSpec(spec)) {
-        sourceField = String(spec.from);
-        sourceVal = getDeepValue(api, sourceField);
-
-        if (sourceVal === undefined || sourceVal === null) {
-          if ("default" in spec && spec.default !== undefined) {
-            out[key as string] = spec.default;
-            continue;
-          }
-          if (spec.required !== false) {
-            throw new Error("Required nested object is undefined or null");
-          }
-          continue;
-        }
+    // CASO 1: Mapeo anidado (nested schema)
+    if (field.kind === "nested") {
+      sourceVal = getDeepValue(api, field.parts);
 
-        // Llamada recursiva async
-        out[key as string] = await mapperxAsync(
-          sourceVal,
-          spec.schema,
-          options
-        );
-        continue;
+      if (sourceVal === undefined || sourceVal === null) {
+        return missing("Required nested object is undefined or null");
       }
 
-      // CASO 2: Mapeo con validación/transformación (potencialmente async)
-      if (isObjectSpec(spec)) {
-        sourceField = String(spec.from);
-        sourceVal = getDeepValue(api, sourceField);
+      // Llamada recursiva async
+      return mapped(
+        await runSchemaAsync(
+          field.child!,
+          sourceVal,
+          childOptions(options),
+          childScope(scope, key)
+        )
+      );
+    }
 
-        if (sourceVal === undefined) {
-          if ("default" in spec && spec.default !== undefined) {
-            out[key as string] = spec.default;
-            continue;
-          }
-          if (spec.required !== false) {
-            throw new Error("Required field is undefined");
-          }
-          continue;
-        }
+    // CASO 2: Array de objetos (cada elemento con su schema)
+    if (field.kind === "array") {
+      sourceVal = getDeepValue(api, field.parts);
 
-        if (sourceVal === null && !spec.nullable) {
-          throw new Error("Field is null but not nullable");
-        }
+      if (sourceVal === undefined || sourceVal === null) {
+        return missing("Required array is undefined or null");
+      }
 
-        let val = sourceVal;
+      return mapped(await mapArrayItemsAsync(sourceVal, field, options, scope));
+    }
 
-        // Aplicar validación (puede ser async)
-        if (spec.validate) {
-          const validated = spec.validate(val);
-          val = isPromise(validated) ? await validated : validated;
-        }
+    // CASO 3: Mapeo con validación/transformación (potencialmente async)
+    if (field.kind === "object") {
+      sourceVal = field.sources
+        ? readSourceValues(api, field)
+        : getDeepValue(api, field.parts);
 
-        // Aplicar transformación (puede ser async)
-        if (spec.transform) {
-          const transformed = spec.transform(val, api);
-          val = isPromise(transformed) ? await transformed : transformed;
-        }
+      if (sourceVal === undefined) {
+        return missing("Required field is undefined");
+      }
 
-        out[key as string] = val;
-        continue;
+      if (sourceVal === null && !spec.nullable) {
+        throw new Error("Field is null but not nullable");
       }
 
-      // CASO 3: Mapeo directo (string key)
-      if (isDirectMapping<Api>(spec)) {
-        sourceField = String(spec);
-        sourceVal = (api as any)[spec];
+      if (!spec.validate && !spec.transform) {
+        return mapped(sourceVal);
+      }
 
-        if (sourceVal === undefined) {
-          throw new Error("Field is undefined in source");
-        }
+      const ctx = createFieldContext(field, api, options, scope);
 
-        out[key as string] = sourceVal;
-        continue;
-      }
+      // Validación + transformación bajo el mismo timeout/cancelación
+      const val = await runGuarded(
+        async (signal) => {
+          ctx.signal = signal;
+          let val = sourceVal;
 
-      // Si llegamos aquí, hay un problema con el schema
-      throw new Error(
-        `Invalid field specification for "${String(
-          key
-        )}". Must be a key, object spec, nested spec, or computed spec.`
-      );
-    } catch (e) {
-      const err = new MapperxError(
-        String(key),
-        sourceField!,
-        e instanceof Error ? e : new Error(String(e)),
-        sourceVal
+          // Aplicar validación (puede ser async)
+          if (spec.validate) {
+            const validated = spec.validate(val, ctx);
+            val = isPromise(validated) ? await validated : validated;
+          }
+
+          // Aplicar transformación (puede ser async)
+          if (spec.transform) {
+            const transformed = spec.transform(val, api, ctx);
+            val = isPromise(transformed) ? await transformed : transformed;
+          }
+
+          return val;
+        },
+        options.signal,
+        spec.timeoutMs
       );
 
-      if (!options.skipInvalid) {
-        throw err;
+      return mapped(val);
+    }
+
+    // CASO 4: Mapeo directo (string key)
+    if (field.kind === "direct") {
+      sourceVal = api[field.sourceKey!];
+
+      if (sourceVal === undefined) {
+        throw new Error("Field is undefined in source");
       }
-      // Si skipInvalid está activado, continuar
+
+      return mapped(sourceVal);
     }
+
+    // Si llegamos aquí, hay un problema con el schema
+    throw new Error(
+      `Invalid field specification for "${key}". Must be a key, object spec, nested spec, array spec, or computed spec.`
+    );
+  } catch (e) {
+    notifyFieldError(options, field, e, sourceVal);
+    return { field, sourceVal, set: false, failed: true, error: e };
   }
+}
 
-  // FASE 2: Procesar campos computados (pueden ser async)
-  for (const key of computedFields) {
-    const spec = schema[key];
-
-    if (!isComputedSpec(spec)) {
-      console.warn(
-        `[MapperxAsync] Field "${String(
-          key
-        )}" was marked as computed but spec is invalid`
+/**
+ * Evalúa un campo computado (FASE 2)
+ * Igual que en FASE 1, el resultado se aplica después en orden
+ */
+async function evaluateComputedAsync(
+  field: CompiledField,
+  out: Record<string, any>,
+  api: any,
+  options: MapperxAsyncOptions,
+  scope: MapperxScope
+): Promise<FieldOutcome> {
+  try {
+    const ctx = createFieldContext(field, api, options, scope);
+
+    // CORRECCIÓN: Manejar tanto valores síncronos como Promises
+    const value = await runGuarded(
+      (signal) => {
+        ctx.signal = signal;
+        return field.spec.computed(out, api, ctx);
+      },
+      options.signal,
+      field.spec.timeoutMs
+    );
+    return { field, sourceVal: undefined, set: true, value, failed: false };
+  } catch (e) {
+    notifyFieldError(options, field, e, undefined);
+    return { field, sourceVal: undefined, set: false, failed: true, error: e };
+  }
+}
+
+/**
+ * Ejecuta un schema compilado de forma asíncrona
+ * (motor compartido por mapperxAsync, mapperxBatchAsync y compileMapperAsync)
+ * Aplica el timeout global: al vencer se cancela el signal del mapeo y el
+ * campo en curso falla con un MapperxTimeoutError
+ * `batch` es el almacén compartido por los items de un lote (ver mxsAsync.cached);
+ * si no se pasa, el mapeo es un lote de un solo item
+ */
+export async function runCompiledSchemaAsync(
+  plan: CompiledSchema,
+  api: any,
+  options: MapperxAsyncOptions,
+  batch: Map<unknown, unknown> = new Map()
+): Promise<any> {
+  const { timeoutMs, signal } = options;
+  const scope: MapperxScope = { root: api, path: [], batch };
+
+  if (timeoutMs === undefined) {
+    return runSchemaAsync(plan, api, options, scope);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer = setTimeout(
+    () => controller.abort(new MapperxTimeoutError(timeoutMs)),
+    timeoutMs
+  );
+
+  try {
+    return await runSchemaAsync(
+      plan,
+      api,
+      { ...options, signal: controller.signal },
+      scope
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Ejecuta un nivel del schema (recursivo para nested y arrays)
+ */
+async function runSchemaAsync(
+  plan: CompiledSchema,
+  api: any,
+  options: MapperxAsyncOptions,
+  scope: MapperxScope
+): Promise<any> {
+  // Schema discriminado: se mapea con la variante del objeto
+  if (plan.discriminator) {
+    let out: any;
+    try {
+      out = await runSchemaAsync(
+        selectVariant(plan, api),
+        api,
+        childOptions(options),
+        scope
       );
-      continue;
+    } catch (e) {
+      throw withStrictErrors(e, plan, api, options, "async");
     }
+    reportUnmappedFields(plan, api, options, "async");
+    return out;
+  }
 
-    try {
-      const result = spec.computed(out as Partial<Ui>, api);
+  const out = {} as Record<string, any>;
+  const errors: MapperxError[] = [];
 
-      // CORRECCIÓN: Manejar tanto valores síncronos como Promises
-      out[key as string] = isPromise(result) ? await result : result;
-    } catch (e) {
-      const err = new MapperxError(
-        String(key),
-        null,
-        e instanceof Error ? e : new Error(String(e))
-      );
+  // Aplica el resultado de un campo regular/anidado (mismas reglas que sync)
+  const applyField = (outcome: FieldOutcome): void => {
+    const { field, sourceVal } = outcome;
 
-      if (options.skipInvalid) {
-        if ("default" in spec && spec.default !== undefined) {
-          out[key as string] = spec.default;
-        }
-        continue;
+    if (!outcome.failed) {
+      if (outcome.set) out[field.key] = outcome.value;
+      if (outcome.hook) {
+        notifyField(options, outcome.hook, field, sourceVal, outcome.value);
+      }
+      return;
+    }
+
+    const e = outcome.error;
+
+    if (options.collectErrors) {
+      if (e instanceof MapperxAggregateError) {
+        out[field.key] = e.value;
       }
+      collectFieldError(errors, field.key, field.sourceField, e, sourceVal);
+      return;
+    }
+
+    const err = toFieldError(field.key, field.sourceField, e, sourceVal);
 
+    if (!options.skipInvalid) {
       throw err;
     }
-  }
+    // Si skipInvalid está activado, continuar
+    notifyField(options, "onFieldSkipped", field, sourceVal, undefined);
+  };
+
+  // Aplica el resultado de un campo computado
+  const applyComputed = (outcome: FieldOutcome): void => {
+    const { field } = outcome;
+    const { key, spec } = field;
+
+    if (!outcome.failed) {
+      out[key] = outcome.value;
+      notifyField(options, "onFieldMapped", field, undefined, out[key]);
+      return;
+    }
 
-  // FASE 3: Validación de modo estricto (igual que sync)
-  if (options.strict) {
-    const schemaFields = new Set<string>();
+    const e = outcome.error;
+    const err = new MapperxError(
+      key,
+      null,
+      e instanceof Error ? e : new Error(String(e))
+    );
 
-    for (const key of Object.keys(schema) as Array<keyof Ui>) {
-      const spec = schema[key];
+    if (options.collectErrors) {
+      errors.push(err);
+    }
 
-      if (isObjectSpec(spec) || isNestedSpec(spec)) {
-        const path = String(spec.from);
-        const rootField = path.split(".")[0];
-        schemaFields.add(rootField);
-      } else if (isDirectMapping(spec)) {
-        schemaFields.add(String(spec));
+    if (options.skipInvalid || options.collectErrors) {
+      if ("default" in spec && spec.default !== undefined) {
+        out[key] = spec.default;
+        notifyField(options, "onDefaultUsed", field, undefined, out[key]);
+      } else {
+        notifyField(options, "onFieldSkipped", field, undefined, undefined);
       }
+      return;
     }
 
-    const extraFields = Object.keys(api).filter((k) => !schemaFields.has(k));
+    throw err;
+  };
 
-    if (extraFields.length > 0) {
-      console.warn(
-        `[MapperxAsync] Extra fields in source object were not mapped: ${extraFields.join(
-          ", "
-        )}`
-      );
+  // FASE 1: Procesar campos regulares y anidados
+  // - Secuencial (por defecto): un campo a la vez, falla en el primero
+  // - parallelFields: todos (o N) a la vez; los resultados se aplican en el
+  //   orden del schema, así las keys y los errores son los mismos
+  //   Si un fallo va a lanzar (sin collectErrors ni skipInvalid), no se
+  //   programan más campos; los que están en curso terminan igualmente.
+  //   Los no programados van detrás en el schema, así que el error lanzado
+  //   es el mismo que en secuencial (forEach salta sus huecos)
+  const { parallelFields } = options;
+  const failFast = !options.collectErrors && !options.skipInvalid;
+
+  if (parallelFields) {
+    const limit = parallelFields === true ? plan.fields.length : parallelFields;
+    if (parallelFields !== true) assertConcurrency("parallelFields", limit);
+    const outcomes = await mapConcurrent(
+      plan.fields,
+      limit,
+      (field) => evaluateFieldAsync(field, api, options, scope),
+      (outcome) => failFast && outcome.failed
+    );
+    outcomes.forEach(applyField);
+  } else {
+    for (const field of plan.fields) {
+      applyField(await evaluateFieldAsync(field, api, options, scope));
     }
   }
 
-  return out as Ui;
+  // FASE 2: Procesar campos computados (pueden ser async)
+  // Los campos de un mismo nivel no dependen entre sí → se evalúan en paralelo
+  for (const level of plan.computedLevels) {
+    const outcomes =
+      level.length === 1
+        ? [await evaluateComputedAsync(level[0], out, api, options, scope)]
+        : await Promise.all(
+            level.map((field) =>
+              evaluateComputedAsync(field, out, api, options, scope)
+            )
+          );
+
+    // Se aplican en el orden del nivel (no en el de resolución)
+    outcomes.forEach(applyComputed);
+  }
+
+  // FASE 3: Validación de modo estricto (paths profundos, igual que sync)
+  reportUnmappedFields(plan, api, options, "async", errors);
+
+  // FASE 4: Reporte de errores acumulados (collectErrors)
+  if (errors.length > 0) {
+    throw new MapperxAggregateError(errors, inSchemaOrder(plan, out));
+  }
+
+  return inSchemaOrder(plan, out);
+}
+
+/**
+ * Mapper asíncrono principal
+ * Soporta validadores, transformadores y computeds asíncronos
+ */
+export async function mapperxAsync<
+  Api extends object,
+  Ui extends object,
+  Ctx = any
+>(
+  api: Api,
+  schema: AsyncMapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxAsyncOptions<Ctx> = {}
+): Promise<Ui> {
+  return runCompiledSchemaAsync(getCompiledSchema(schema), api, options);
 }
 
 /**
@@ -347,6 +807,56 @@ export async function mapperxAsync<Api extends object, Ui extends object>(
  */
 export const mxa = mapperxAsync;
 
+/**
+ * Función de mapeo asíncrona compilada
+ */
+export type CompiledAsyncMapper<Api, Ui> = (api: Api) => Promise<Ui>;
+
+/**
+ * Versión async de compileMapper: clasifica el schema una sola vez y
+ * retorna una función reutilizable con la misma semántica que mapperxAsync
+ *
+ * @example
+ * ```typescript
+ * const mapOrder = compileMapperAsync(orderSchema);
+ * const orders = await Promise.all(apiOrders.map(mapOrder));
+ * ```
+ */
+export function compileMapperAsync<
+  Api extends object,
+  Ui extends object,
+  Ctx = any
+>(
+  schema: AsyncMapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxAsyncOptions<Ctx> = {}
+): CompiledAsyncMapper<Api, Ui> {
+  const plan = getCompiledSchema(schema);
+  return (api: Api): Promise<Ui> => runCompiledSchemaAsync(plan, api, options);
+}
+
+/**
+ * Versión async de mapperxSafe: nunca rechaza, retorna valor y errores
+ */
+export async function mapperxSafeAsync<
+  Api extends object,
+  Ui extends object,
+  Ctx = any
+>(
+  api: Api,
+  schema: AsyncMapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxAsyncOptions<Ctx> = {}
+): Promise<MapperxSafeResult<Ui>> {
+  try {
+    const value = await mapperxAsync(api, schema, {
+      ...options,
+      collectErrors: true,
+    });
+    return { ok: true, value, errors: [] };
+  } catch (e) {
+    return toSafeFailure<Ui>(e);
+  }
+}
+
 // ============================================================================
 // BATCH ASYNC MAPPER
 // ============================================================================
@@ -360,28 +870,122 @@ export interface AsyncMapperxBatchResult<T> {
     index: number;
     item: any;
     error: MapperxError;
+    errors?: MapperxError[]; // Todos los errores del item (solo con collectErrors)
   }>;
 }
 
 /**
- * Procesa múltiples items de forma asíncrona usando Promise.allSettled
- * Esto permite que algunos items fallen sin detener el procesamiento de otros
+ * Opciones del batch asíncrono
  */
-export async function mapperxBatchAsync<Api extends object, Ui extends object>(
+export interface MapperxBatchAsyncOptions<Ctx = any>
+  extends MapperxAsyncOptions<Ctx> {
+  /**
+   * Máximo de items mapeándose a la vez (por defecto todos a la vez)
+   * Útil con validadores async que llaman a servicios (ej. fetchJson)
+   * Debe ser un entero >= 1 (RangeError en caso contrario)
+   */
+  concurrency?: number;
+
+  /**
+   * Cancela el batch: no se programan más items, los callbacks en curso
+   * reciben el signal cancelado y la promesa se rechaza con un MapperxAbortError
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Se llama cada vez que un item termina (con éxito o con error)
+   */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Procesa múltiples items de forma asíncrona con concurrencia limitada
+ * Algunos items pueden fallar sin detener el procesamiento de los demás;
+ * `data` y los índices de `errors` conservan el orden de entrada
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = await mapperxBatchAsync(apiUsers, userSchema, {
+ *   concurrency: 10,
+ *   signal: controller.signal,
+ *   onProgress: (done, total) => console.log(`${done}/${total}`),
+ * });
+ * ```
+ */
+export async function mapperxBatchAsync<
+  Api extends object,
+  Ui extends object,
+  Ctx = any
+>(
   items: Api[],
-  schema: AsyncMapperxSchema<Api, Ui>,
-  options: MapperxOptions = {}
+  schema: AsyncMapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxBatchAsyncOptions<Ctx> = {}
 ): Promise<AsyncMapperxBatchResult<Ui>> {
-  // Usar Promise.allSettled para procesar todos los items
-  // incluso si algunos fallan
-  const results = await Promise.allSettled(
-    items.map((item, index) =>
-      mapperxAsync(item, schema, options).catch((error) => {
-        // Capturar el error con su índice
-        throw { index, error };
-      })
-    )
-  );
+  // El schema se compila una sola vez para todo el lote
+  return runCompiledBatchAsync(getCompiledSchema(schema), items, options);
+}
+
+/**
+ * Ejecuta un lote async con un plan ya compilado (mapperxBatchAsync,
+ * createMapper)
+ */
+export async function runCompiledBatchAsync<Ui>(
+  plan: CompiledSchema,
+  items: readonly object[],
+  options: MapperxBatchAsyncOptions
+): Promise<AsyncMapperxBatchResult<Ui>> {
+  const { concurrency, signal, onProgress } = options;
+  const total = items.length;
+
+  if (concurrency !== undefined) assertConcurrency("concurrency", concurrency);
+
+  const results: Array<PromiseSettledResult<Ui>> = new Array(total);
+  const batch = new Map<unknown, unknown>(); // Compartido por todos los items
+  let next = 0;
+  let done = 0;
+
+  if (signal?.aborted) {
+    throw new MapperxAbortError(0, total, signal.reason);
+  }
+
+  // Cada worker toma el siguiente item pendiente hasta agotar la lista
+  const worker = async (): Promise<void> => {
+    while (next < total && !signal?.aborted) {
+      const index = next++;
+
+      try {
+        const value = await runCompiledSchemaAsync(
+          plan,
+          items[index],
+          options,
+          batch
+        );
+        results[index] = { status: "fulfilled", value };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+
+      done++;
+      onProgress?.(done, total);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency ?? total, total));
+  const workers = Promise.all(Array.from({ length: workerCount }, worker));
+
+  // La cancelación rechaza de inmediato (los items en curso se descartan)
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new MapperxAbortError(done, total, signal!.reason));
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    await Promise.race([workers, aborted]);
+  } finally {
+    signal?.removeEventListener("abort", onAbort!);
+  }
 
   const data: Ui[] = [];
   const errors: AsyncMapperxBatchResult<Ui>["errors"] = [];
@@ -389,35 +993,32 @@ export async function mapperxBatchAsync<Api extends object, Ui extends object>(
   results.forEach((result, index) => {
     if (result.status === "fulfilled") {
       data.push(result.value);
-    } else {
-      const reason = result.reason;
-
-      // Si el error tiene índice (de nuestro catch), usarlo
-      if (reason && typeof reason === "object" && "error" in reason) {
-        const error =
-          reason.error instanceof MapperxError
-            ? reason.error
-            : new MapperxError("unknown", null, reason.error as Error);
-
-        errors.push({
-          index: reason.index,
-          item: items[reason.index],
-          error,
-        });
-      } else {
-        // Error inesperado
-        const error =
-          reason instanceof MapperxError
-            ? reason
-            : new MapperxError("unknown", null, new Error(String(reason)));
-
-        errors.push({
-          index,
-          item: items[index],
-          error,
-        });
-      }
+      return;
+    }
+
+    const reason = result.reason;
+
+    // Con collectErrors: reportar todos los errores del item
+    if (reason instanceof MapperxAggregateError) {
+      errors.push({
+        index,
+        item: items[index],
+        error: reason.errors[0],
+        errors: reason.errors,
+      });
+      return;
     }
+
+    const error =
+      reason instanceof MapperxError
+        ? reason
+        : new MapperxError(
+            "unknown",
+            null,
+            reason instanceof Error ? reason : new Error(String(reason))
+          );
+
+    errors.push({ index, item: items[index], error });
   });
 
   return { data, errors };
@@ -432,16 +1033,388 @@ export const mxBatchAsync = mapperxBatchAsync;
 // HELPERS PARA ASYNC VALIDATORS Y TRANSFORMS
 // ============================================================================
 
+/**
+ * Opciones de mxsAsync.cached
+ */
+export interface MapperxCacheOptions {
+  /** Key de cache a partir del valor (por defecto el propio valor) */
+  key?: (val: unknown, ctx?: MapperxContext) => unknown;
+
+  /** Tiempo de vida de cada entrada (ms). Por defecto no expira */
+  ttlMs?: number;
+
+  /** Máximo de entradas; al superarlo se descarta la menos usada (LRU) */
+  maxEntries?: number;
+
+  /**
+   * - "global": la cache vive mientras viva el validador (por defecto)
+   * - "batch": la cache vive solo durante un mapperxBatchAsync/mapperxAsync
+   */
+  scope?: "global" | "batch";
+}
+
+/**
+ * Validador con cache (ver mxsAsync.cached)
+ */
+export type CachedAsyncMapperxValidator<T> = AsyncMapperxValidator<T> & {
+  /** Vacía la cache global del validador */
+  clear: () => void;
+};
+
+/**
+ * Opciones de mxsAsync.batchLoader
+ */
+export interface MapperxBatchLoaderOptions<K> {
+  /** Key a cargar a partir del valor (por defecto el propio valor) */
+  key?: (val: unknown, ctx?: MapperxContext) => K;
+
+  /**
+   * Máximo de keys por llamada a loadMany (por defecto sin límite)
+   * Debe ser un entero >= 1 (RangeError en caso contrario)
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Key pedida a un batchLoader (compartida por todas las llamadas que la piden)
+ */
+interface BatchLoaderEntry<K, T> {
+  key: K;
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+  waiters: number; // Llamadas que aún esperan el resultado
+  load?: { controller: AbortController; pending: number }; // loadMany en curso
+}
+
+/**
+ * Estado de un batchLoader dentro de un lote
+ */
+interface BatchLoaderState<K, T> {
+  queue: Array<BatchLoaderEntry<K, T>>;
+  cache: Map<K, BatchLoaderEntry<K, T>>;
+  scheduled: boolean;
+}
+
+/**
+ * Opciones de mxsAsync.withRetry
+ */
+export interface MapperxRetryOptions {
+  /** Intentos en total, incluido el primero (por defecto 3) */
+  maxRetries?: number;
+
+  /** Espera base entre intentos (ms, por defecto 1000) */
+  delayMs?: number;
+
+  /**
+   * Cómo crece la espera tras el intento N (1, 2, ...):
+   * - "fixed": delayMs (por defecto)
+   * - "linear": delayMs * N
+   * - "exponential": delayMs * 2^(N-1)
+   * - función: espera calculada por el usuario
+   */
+  backoff?: "fixed" | "linear" | "exponential" | ((attempt: number) => number);
+
+  /** Tope de la espera (ms) */
+  maxDelayMs?: number;
+
+  /** Full jitter: espera aleatoria entre 0 y la calculada */
+  jitter?: boolean;
+
+  /** Decide si el error se reintenta (si no, se relanza tal cual) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /** Se llama antes de cada espera */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Espera antes del siguiente intento según la estrategia de backoff
+ */
+function retryDelay(options: MapperxRetryOptions, attempt: number): number {
+  const { delayMs = 1000, backoff = "fixed", maxDelayMs, jitter } = options;
+
+  let delay =
+    typeof backoff === "function"
+      ? backoff(attempt)
+      : backoff === "linear"
+      ? delayMs * attempt
+      : backoff === "exponential"
+      ? delayMs * 2 ** (attempt - 1)
+      : delayMs;
+
+  if (maxDelayMs !== undefined) delay = Math.min(delay, maxDelayMs);
+  if (jitter) delay = Math.random() * delay;
+
+  return delay;
+}
+
 /**
  * Helpers para crear validadores asíncronos comunes
  */
 export const mxsAsync = {
+  /**
+   * Validador async que agrupa las búsquedas de un lote (estilo DataLoader)
+   * - Las keys pedidas por todos los items en el mismo tick se resuelven con
+   *   una sola llamada a `loadMany` (sin duplicados)
+   * - `loadMany` devuelve un resultado por key, en el mismo orden; si un
+   *   resultado es un Error, falla solo el campo de ese item (MapperxError)
+   * - Los resultados se reutilizan hasta que termina el lote; fuera de un
+   *   lote solo se agrupan las keys del mismo tick (sin cache)
+   * - Cada llamada deja de esperar cuando se cancela su propio signal;
+   *   `loadMany` recibe un signal que se cancela solo cuando ya no queda
+   *   nadie esperando ninguna de sus keys
+   *
+   * @example
+   * ```typescript
+   * const customer = mxsAsync.batchLoader(async (ids: number[]) => {
+   *   const rows = await db.customers.findMany({ where: { id: { in: ids } } });
+   *   return ids.map(
+   *     (id) => rows.find((r) => r.id === id) ?? new Error(`Customer ${id} not found`)
+   *   );
+   * });
+   *
+   * const schema: AsyncMapperxSchema<OrderDto, Order> = {
+   *   customer: { from: 'customer_id', validate: customer },
+   * };
+   *
+   * await mapperxBatchAsync(orders, schema); // 1 sola consulta
+   * ```
+   */
+  batchLoader: <K, T>(
+    loadMany: (
+      keys: K[],
+      signal: AbortSignal
+    ) => Promise<ReadonlyArray<T | Error>>,
+    options: MapperxBatchLoaderOptions<K> = {}
+  ): AsyncMapperxValidator<T> => {
+    const { key = (val: unknown) => val as K, maxBatchSize = Infinity } =
+      options;
+    // Con 0 o negativos el reparto en grupos no avanzaría (bucle infinito)
+    // y con NaN no se despacharía ninguna key
+    if (options.maxBatchSize !== undefined) {
+      assertConcurrency("maxBatchSize", options.maxBatchSize);
+    }
+    const token = {}; // Identifica este loader dentro del almacén del lote
+    let outside: BatchLoaderState<K, T> | undefined; // Tick actual sin lote
+
+    // Resuelve un grupo de keys con una llamada a loadMany
+    const dispatch = async (
+      group: BatchLoaderState<K, T>["queue"]
+    ): Promise<void> => {
+      const load = { controller: new AbortController(), pending: group.length };
+      group.forEach((entry) => (entry.load = load));
+
+      try {
+        const results = await loadMany(
+          group.map((entry) => entry.key),
+          load.controller.signal
+        );
+
+        if (results.length !== group.length) {
+          throw new Error(
+            `batchLoader: loadMany returned ${results.length} results for ${group.length} keys`
+          );
+        }
+
+        group.forEach((entry, i) => {
+          const result = results[i];
+          if (result instanceof Error) entry.reject(result);
+          else entry.resolve(result);
+        });
+      } catch (e) {
+        group.forEach((entry) => entry.reject(e));
+      }
+    };
+
+    const flush = (state: BatchLoaderState<K, T>): void => {
+      const queue = state.queue;
+      state.queue = [];
+      state.scheduled = false;
+
+      // Fuera de un lote no se cachea: el estado solo agrupa un tick
+      if (outside === state) outside = undefined;
+
+      for (let i = 0; i < queue.length; i += maxBatchSize) {
+        void dispatch(queue.slice(i, i + maxBatchSize));
+      }
+    };
+
+    const enqueue = (
+      state: BatchLoaderState<K, T>,
+      loadKey: K
+    ): BatchLoaderEntry<K, T> => {
+      const entry = { key: loadKey, waiters: 0 } as BatchLoaderEntry<K, T>;
+      entry.promise = new Promise<T>((resolve, reject) => {
+        entry.resolve = resolve;
+        entry.reject = reject;
+      });
+      state.queue.push(entry);
+      state.cache.set(loadKey, entry);
+
+      // Los errores no se reutilizan
+      entry.promise.catch(() => {
+        if (state.cache.get(loadKey) === entry) state.cache.delete(loadKey);
+      });
+
+      // Las keys se acumulan hasta el siguiente tick
+      if (!state.scheduled) {
+        state.scheduled = true;
+        setTimeout(() => flush(state), 0);
+      }
+
+      return entry;
+    };
+
+    // Una llamada cancelada deja de esperar; la key solo se cancela (o se
+    // quita de la cola) cuando ya no la espera nadie, y loadMany recibe un
+    // signal cancelado cuando todas las keys de su grupo se cancelaron
+    const release = (
+      state: BatchLoaderState<K, T>,
+      entry: BatchLoaderEntry<K, T>,
+      reason: unknown
+    ): void => {
+      if (--entry.waiters > 0) return;
+      if (state.cache.get(entry.key) === entry) state.cache.delete(entry.key);
+
+      if (!entry.load) {
+        state.queue = state.queue.filter((queued) => queued !== entry);
+        entry.reject(reason);
+      } else if (--entry.load.pending === 0) {
+        entry.load.controller.abort(reason);
+      }
+    };
+
+    return (val: unknown, ctx?: MapperxContext): Promise<T> => {
+      const signal = ctx?.signal;
+      if (signal?.aborted) return Promise.reject(signal.reason);
+
+      let state = (ctx?.batch ? ctx.batch.get(token) : outside) as
+        | BatchLoaderState<K, T>
+        | undefined;
+      if (!state) {
+        state = { queue: [], cache: new Map(), scheduled: false };
+        if (ctx?.batch) ctx.batch.set(token, state);
+        else outside = state;
+      }
+
+      const pending = state;
+      const loadKey = key(val, ctx);
+      const entry = pending.cache.get(loadKey) ?? enqueue(pending, loadKey);
+
+      entry.waiters++;
+      return raceSignal(entry.promise, signal, () =>
+        release(pending, entry, signal!.reason)
+      );
+    };
+  },
+
+  /**
+   * Validador async con cache de resultados
+   * - Llamadas con la misma key comparten una única promesa (también
+   *   mientras está en curso), así que la búsqueda se hace una sola vez
+   * - Los errores no se cachean: la siguiente llamada lo vuelve a intentar
+   * - La búsqueda compartida no recibe el signal de ninguna llamada; cada
+   *   llamada deja de esperar cuando se cancela su propio signal
+   *
+   * @example
+   * ```typescript
+   * const schema: AsyncMapperxSchema<OrderDto, Order> = {
+   *   country: {
+   *     from: 'country_code',
+   *     validate: mxsAsync.cached(loadCountry, { ttlMs: 60_000, maxEntries: 500 }),
+   *   },
+   *   // Solo se reutiliza dentro del mismo lote
+   *   seller: {
+   *     from: 'seller_id',
+   *     validate: mxsAsync.cached(loadSeller, { scope: 'batch' }),
+   *   },
+   * };
+   * ```
+   */
+  cached: <T>(
+    validator: AsyncMapperxValidator<T>,
+    options: MapperxCacheOptions = {}
+  ): CachedAsyncMapperxValidator<T> => {
+    const { key = (val) => val, ttlMs, maxEntries, scope = "global" } = options;
+    const entries = new Map<
+      unknown,
+      { value: Promise<T>; expiresAt: number }
+    >();
+    const token = {}; // Identifica este validador dentro del almacén del lote
+
+    // Ejecuta el validador y descarta la entrada si falla
+    // La promesa es compartida: no depende del signal de quien la inició
+    const load = (
+      store: Map<unknown, { value: Promise<T>; expiresAt: number }>,
+      cacheKey: unknown,
+      val: unknown,
+      ctx?: MapperxContext
+    ): Promise<T> => {
+      const entry = {
+        value: Promise.resolve().then(() =>
+          validator(val, ctx && { ...ctx, signal: undefined })
+        ),
+        expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : Infinity,
+      };
+
+      entry.value.catch(() => {
+        if (store.get(cacheKey) === entry) store.delete(cacheKey);
+      });
+
+      store.set(cacheKey, entry);
+      return entry.value;
+    };
+
+    const cachedValidator = (
+      val: unknown,
+      ctx?: MapperxContext
+    ): Promise<T> => {
+      const cacheKey = key(val, ctx);
+
+      // Cache del lote: sin TTL ni límite, se descarta al terminar el lote
+      if (scope === "batch") {
+        if (!ctx?.batch) return Promise.resolve(validator(val, ctx));
+
+        let store = ctx.batch.get(token) as typeof entries | undefined;
+        if (!store) {
+          store = new Map();
+          ctx.batch.set(token, store);
+        }
+
+        return raceSignal(
+          store.get(cacheKey)?.value ?? load(store, cacheKey, val, ctx),
+          ctx.signal
+        );
+      }
+
+      const hit = entries.get(cacheKey);
+      if (hit && hit.expiresAt > Date.now()) {
+        // LRU: la entrada usada pasa al final
+        entries.delete(cacheKey);
+        entries.set(cacheKey, hit);
+        return raceSignal(hit.value, ctx?.signal);
+      }
+
+      entries.delete(cacheKey);
+      const value = load(entries, cacheKey, val, ctx);
+
+      if (maxEntries !== undefined && entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+
+      return raceSignal(value, ctx?.signal);
+    };
+
+    return Object.assign(cachedValidator, { clear: () => entries.clear() });
+  },
+
   /**
    * Validador async que hace fetch a una URL
    */
   fetchJson: <T = any>(url: string): AsyncMapperxValidator<T> => {
-    return async (_val: unknown): Promise<T> => {
-      const response = await fetch(url);
+    return async (_val: unknown, ctx?: MapperxContext): Promise<T> => {
+      const response = await fetch(url, { signal: ctx?.signal });
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -456,37 +1429,72 @@ export const mxsAsync = {
     validator: AsyncMapperxValidator<T>,
     ms: number
   ): AsyncMapperxValidator<T> => {
-    return async (val: unknown): Promise<T> => {
-      await new Promise((resolve) => setTimeout(resolve, ms));
-      return validator(val);
+    return async (val: unknown, ctx?: MapperxContext): Promise<T> => {
+      await sleep(ms, ctx?.signal);
+      return validator(val, ctx);
     };
   },
 
   /**
    * Validador async con retry
+   * - Acepta `(validator, maxRetries, delayMs)` o un objeto de opciones
+   * - Si se agotan los intentos lanza un MapperxRetryError con el error
+   *   de cada intento; un error que `shouldRetry` descarta se relanza tal cual
+   * - `maxRetries` debe ser un entero >= 1 (RangeError en caso contrario)
+   *
+   * @example
+   * ```typescript
+   * const lookup = mxsAsync.withRetry(fetchCustomer, {
+   *   maxRetries: 5,
+   *   delayMs: 200,
+   *   backoff: 'exponential',
+   *   maxDelayMs: 5000,
+   *   jitter: true,
+   *   shouldRetry: (e) => !(e instanceof ValidationError),
+   *   onRetry: (e, attempt, delay) => log.warn(`retry ${attempt} in ${delay}ms`),
+   * });
+   * ```
    */
   withRetry: <T>(
     validator: AsyncMapperxValidator<T>,
-    maxRetries: number = 3,
+    maxRetriesOrOptions: number | MapperxRetryOptions = 3,
     delayMs: number = 1000
   ): AsyncMapperxValidator<T> => {
-    return async (val: unknown): Promise<T> => {
-      let lastError: Error | null = null;
+    const options: MapperxRetryOptions =
+      typeof maxRetriesOrOptions === "number"
+        ? { maxRetries: maxRetriesOrOptions, delayMs }
+        : maxRetriesOrOptions;
+    const { maxRetries = 3, shouldRetry, onRetry } = options;
+
+    // maxRetries cuenta intentos: con 0 o NaN el validador nunca se llamaría
+    if (!Number.isInteger(maxRetries) || maxRetries < 1) {
+      throw new RangeError(
+        `withRetry: maxRetries must be a positive integer (total attempts), got ${maxRetries}`
+      );
+    }
+
+    return async (val: unknown, ctx?: MapperxContext): Promise<T> => {
+      const errors: unknown[] = [];
+
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        // Si el mapeo se canceló, no se reintenta
+        if (ctx?.signal?.aborted) throw ctx.signal.reason;
 
-      for (let i = 0; i < maxRetries; i++) {
         try {
-          return await validator(val);
+          return await validator(val, ctx);
         } catch (e) {
-          lastError = e instanceof Error ? e : new Error(String(e));
-          if (i < maxRetries - 1) {
-            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          if (shouldRetry && !shouldRetry(e, attempt)) throw e;
+          errors.push(e);
+
+          if (attempt < maxRetries) {
+            const delay = retryDelay(options, attempt);
+            onRetry?.(e, attempt, delay);
+            await sleep(delay, ctx?.signal);
           }
         }
       }
 
-      throw new Error(
-        `Validation failed after ${maxRetries} retries: ${lastError?.message}`
-      );
+      throw new MapperxRetryError(errors);
     };
   },
 };
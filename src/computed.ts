@@ -3,7 +3,7 @@
 // ============================================================================
 
 // IMPORTAR tipos del core (single source of truth)
-import { MapperxComputed, ComputedFieldSpec } from "./core";
+import { MapperxComputed, ComputedFieldSpec, MapperxContext } from "./core";
 
 // ============================================================================
 // RE-EXPORTAR el tipo base para conveniencia
@@ -15,8 +15,9 @@ import { MapperxComputed, ComputedFieldSpec } from "./core";
  *
  * Estructura:
  * {
- *   computed: (mapped: Partial<Ui>, src: any) => Ui[K],
- *   default?: Ui[K]  // Opcional
+ *   computed: (mapped: Partial<Ui>, src: any, ctx: MapperxContext) => Ui[K],
+ *   default?: Ui[K],  // Opcional
+ *   dependsOn?: Array<keyof Ui>  // Opcional: computados a evaluar antes
  * }
  */
 export type { ComputedFieldSpec } from "./core";
@@ -74,9 +75,9 @@ export interface ComputedFieldSpecWithDefault<Ui, K extends keyof Ui> {
  * };
  * ```
  */
-export function mxc<Ui, K extends keyof Ui>(
-  fn: MapperxComputed<Ui, K>
-): ComputedFieldSpec<Ui, K> {
+export function mxc<Ui, K extends keyof Ui, Ctx = any>(
+  fn: MapperxComputed<Ui, K, any, Ctx>
+): ComputedFieldSpec<Ui, K, Ctx> {
   return { computed: fn };
 }
 
@@ -133,6 +134,7 @@ export namespace mxc {
     combiner: (...values: any[]) => Ui[K]
   ): ComputedFieldSpec<Ui, K> {
     return {
+      dependsOn: keys, // Si alguna key es computada, se evalúa antes
       computed: (mapped: Partial<Ui>) => {
         const values = keys.map((key) => mapped[key]);
 
@@ -150,6 +152,34 @@ export namespace mxc {
     };
   }
 
+  /**
+   * Crea un campo computado que depende de otros campos computados
+   * El motor los evalúa antes (orden topológico) sin importar su posición
+   * en el schema; un ciclo de dependencias lanza un error al compilar
+   *
+   * @param keys Campos que deben evaluarse antes
+   * @param fn Función computada
+   * @returns Campo computado con dependencias
+   *
+   * @example
+   * ```typescript
+   * const schema = {
+   *   grandTotal: mxc.dependsOn<Invoice, 'grandTotal'>(
+   *     ['subtotal', 'tax'],
+   *     (mapped) => mapped.subtotal! + mapped.tax!
+   *   ),
+   *   subtotal: mxc((mapped) => mapped.price! * mapped.qty!),
+   *   tax: mxc.dependsOn(['subtotal'], (mapped) => mapped.subtotal! * 0.12),
+   * };
+   * ```
+   */
+  export function dependsOn<Ui, K extends keyof Ui>(
+    keys: Array<keyof Ui>,
+    fn: MapperxComputed<Ui, K>
+  ): ComputedFieldSpec<Ui, K> {
+    return { computed: fn, dependsOn: keys };
+  }
+
   /**
    * Crea un campo computado condicional
    *
@@ -171,15 +201,15 @@ export namespace mxc {
    * ```
    */
   export function conditional<Ui, K extends keyof Ui>(
-    condition: (mapped: Partial<Ui>, src: any) => boolean,
+    condition: (mapped: Partial<Ui>, src: any, ctx: MapperxContext) => boolean,
     thenFn: MapperxComputed<Ui, K>,
     elseFn: MapperxComputed<Ui, K>
   ): ComputedFieldSpec<Ui, K> {
     return {
-      computed: (mapped: Partial<Ui>, src: any) => {
-        return condition(mapped, src)
-          ? thenFn(mapped, src)
-          : elseFn(mapped, src);
+      computed: (mapped: Partial<Ui>, src: any, ctx: MapperxContext) => {
+        return condition(mapped, src, ctx)
+          ? thenFn(mapped, src, ctx)
+          : elseFn(mapped, src, ctx);
       },
     };
   }
@@ -205,6 +235,7 @@ export namespace mxc {
   ): ComputedFieldSpec<Ui, K> {
     return {
       computed: (_mapped: Partial<Ui>, src: any) => fn(src),
+      dependsOn: [], // Solo lee el source
     };
   }
 
@@ -252,6 +283,7 @@ export namespace mxc {
   ): ComputedFieldSpec<Ui, K> {
     return {
       computed: () => value,
+      dependsOn: [], // No lee otros campos
     };
   }
 
@@ -273,6 +305,7 @@ export namespace mxc {
     sourceKey: keyof Ui
   ): ComputedFieldSpec<Ui, K> {
     return {
+      dependsOn: [sourceKey],
       computed: (mapped: Partial<Ui>) => {
         const value = mapped[sourceKey];
         if (value === undefined) {
@@ -305,6 +338,7 @@ export namespace mxc {
     transformer: (value: Ui[SK]) => Ui[K]
   ): ComputedFieldSpec<Ui, K> {
     return {
+      dependsOn: [sourceKey],
       computed: (mapped: Partial<Ui>) => {
         const value = mapped[sourceKey];
         if (value === undefined) {
@@ -3,204 +3,1571 @@
 // ============================================================================
 
 import { MapperxValidator } from "./validators";
-import { Path } from "./types";
+import { Path, ArrayElement } from "./types";
+import type { MapperxMessages } from "./messages";
 
 // ============================================================================
 // TIPOS BASE
 // ============================================================================
 
+/**
+ * Contexto que reciben validadores, transformaciones y campos computados
+ * - Api: tipo del objeto fuente del nivel actual
+ * - Ctx: tipo del contexto del usuario (options.context: locale, tenant, flags...)
+ */
+export interface MapperxContext<Api = any, Ctx = any> {
+  key: string; // Campo de destino (key local)
+  path: Array<string | number>; // Ruta completa de destino: ["lines", 3, "price"]
+  sourceField: string | null; // Path de origen (null en computados)
+  source: Api; // Objeto fuente que contiene el campo (padre)
+  root: unknown; // Objeto fuente raíz (el que se pasó a mapperx)
+  options: MapperxOptions<Ctx>; // Opciones del mapeo en curso
+  context: Ctx; // Contexto del usuario (options.context)
+  signal?: AbortSignal; // Cancelación/timeout (solo en mapperxAsync)
+  batch?: Map<unknown, unknown>; // Almacén compartido por el lote (solo async)
+}
+
 /**
  * Función de transformación: convierte un valor de entrada en uno de salida
  */
-export type MapperxTransform<In, Out> = (val: In, src?: any) => Out;
+export type MapperxTransform<In, Out, Api = any, Ctx = any> = (
+  val: In,
+  src?: any,
+  ctx?: MapperxContext<Api, Ctx>
+) => Out;
+
+/**
+ * Transformación de un campo del schema (el contexto siempre está presente)
+ */
+export type MapperxFieldTransform<Out, Api = any, Ctx = any> = (
+  val: any,
+  src: any,
+  ctx: MapperxContext<Api, Ctx>
+) => Out;
+
+/**
+ * Validación de un campo del schema (el contexto siempre está presente)
+ * Cualquier MapperxValidator sirve; el tipo solo añade el contexto tipado
+ */
+export type MapperxFieldValidator<Api = any, Ctx = any> = (
+  val: unknown,
+  ctx: MapperxContext<Api, Ctx>
+) => any;
 
 /**
  * Función de campo computado: calcula un valor basado en campos ya mapeados
  */
-export type MapperxComputed<Ui, K extends keyof Ui> = (
+export type MapperxComputed<Ui, K extends keyof Ui, Api = any, Ctx = any> = (
   mapped: Partial<Ui>,
-  src: any
+  src: any,
+  ctx: MapperxContext<Api, Ctx>
 ) => Ui[K];
 
-// ============================================================================
-// ESPECIFICACIONES DE CAMPOS (FIELD SPECS)
-// ============================================================================
+// ============================================================================
+// ESPECIFICACIONES DE CAMPOS (FIELD SPECS)
+// ============================================================================
+
+/**
+ * Política para campos con varios paths de origen (from: [...])
+ * - "first-defined": el primer valor distinto de undefined
+ * - "all": tupla con el valor de cada path (en el orden de `from`)
+ * - "coalesce-non-empty": el primer valor no vacío (ni null, ni "", ni [])
+ */
+export type MapperxSourcePolicy =
+  | "first-defined"
+  | "all"
+  | "coalesce-non-empty";
+
+/**
+ * Campo con validación/transformación
+ * Tiene 'from' pero NO tiene 'schema' ni 'computed'
+ */
+export interface ObjectFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
+  /** Path de origen, o varios paths candidatos (ver `policy`) */
+  from: Path<Api> | readonly Path<Api>[];
+  /** Cómo combinar varios paths candidatos (por defecto "first-defined") */
+  policy?: MapperxSourcePolicy;
+  validate?: MapperxFieldValidator<Api, Ctx>;
+  transform?: MapperxFieldTransform<Ui[K], Api, Ctx>;
+  /** Transformación inversa (Ui → Api), usada por mapperxReverse */
+  reverse?: (val: Ui[K], ui: Partial<Ui>) => any;
+  default?: Ui[K];
+  required?: boolean;
+  nullable?: boolean;
+}
+
+/**
+ * Campo anidado (nested schema)
+ * Tiene 'from' Y 'schema' pero NO tiene 'computed', 'validate', ni 'transform'
+ */
+export interface NestedFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
+  from: Path<Api>;
+  schema: MapperxSchemaLike<any, Ui[K], Ctx>;
+  required?: boolean;
+  default?: Ui[K];
+}
+
+/**
+ * Campo array de objetos (cada elemento se mapea con un schema anidado)
+ * Tiene 'from' Y 'each' pero NO tiene 'schema', 'computed', 'validate', ni 'transform'
+ */
+export interface ArrayFieldSpec<Api, Ui, K extends keyof Ui, Ctx = any> {
+  from: Path<Api>;
+  each: MapperxSchemaLike<any, ArrayElement<Ui[K]>, Ctx>;
+  required?: boolean;
+  default?: Ui[K];
+  /** Si es true, los elementos inválidos se omiten en vez de fallar el campo */
+  skipInvalidItems?: boolean;
+}
+
+/**
+ * Campo computado (BASE)
+ * Tiene 'computed' pero NO tiene 'from' ni 'schema'
+ *
+ * NOTA: Este es el SOURCE OF TRUTH para ComputedFieldSpec
+ * computed.ts puede extender este tipo para añadir variantes
+ */
+export interface ComputedFieldSpec<Ui, K extends keyof Ui, Ctx = any> {
+  computed: MapperxComputed<Ui, K, any, Ctx>;
+  default?: Ui[K]; // Opcional: valor por defecto si el computed falla
+  /**
+   * Campos computados que deben evaluarse antes que este
+   * Sin dependsOn, el campo se evalúa después de los computados declarados
+   * antes que él en el schema (orden clásico)
+   */
+  dependsOn?: ReadonlyArray<keyof Ui>;
+}
+
+/**
+ * Especificación de campo - Union de todas las posibilidades
+ */
+export type MapperxFieldSpec<
+  Api,
+  Ui,
+  K extends keyof Ui = keyof Ui,
+  Ctx = any
+> =
+  | keyof Api // 1. Mapeo directo: 'id: "user_id"'
+  | ObjectFieldSpec<Api, Ui, K, Ctx> // 2. Con validación/transformación
+  | NestedFieldSpec<Api, Ui, K, Ctx> // 3. Schema anidado
+  | ArrayFieldSpec<Api, Ui, K, Ctx> // 4. Array de objetos con schema anidado
+  | ComputedFieldSpec<Ui, K, Ctx>; // 5. Campo computado
+
+/**
+ * Schema completo - mapea cada campo de Ui
+ * Ctx tipa el contexto del usuario (ctx.context) en validate, transform y
+ * computed; se propaga a los schemas anidados
+ */
+export type MapperxSchema<Api, Ui, Ctx = any> = {
+  [K in keyof Ui]: MapperxFieldSpec<Api, Ui, K, Ctx>;
+};
+
+/**
+ * Marca de los schemas discriminados (ver mxDiscriminated)
+ */
+export const MAPPERX_DISCRIMINATED: unique symbol = Symbol(
+  "mapperx.discriminated"
+);
+
+/**
+ * Schema discriminado: cada objeto se mapea con el schema de su variante,
+ * elegida por el valor de un campo "tag" del source
+ * Ejemplo: { type: "card" } → schema de card, { type: "cash" } → schema de cash
+ *
+ * Se crea con mxDiscriminated y se usa como schema raíz, `schema` o `each`
+ */
+export interface MapperxDiscriminatedSchema<Api, Ui> {
+  readonly [MAPPERX_DISCRIMINATED]: true;
+  tag: string; // Path del campo discriminador en el source
+  variants: Record<string, object>; // Valor del tag → schema de la variante
+  fallback?: object; // Schema para valores del tag desconocidos
+  /** Solo para inferencia de tipos (no existe en runtime) */
+  readonly __types?: { api: Api; ui: Ui };
+}
+
+/**
+ * Schema normal o discriminado
+ */
+export type MapperxSchemaLike<Api, Ui, Ctx = any> =
+  | MapperxSchema<Api, Ui, Ctx>
+  | MapperxDiscriminatedSchema<Api, Ui>;
+
+// ============================================================================
+// TYPE GUARDS (Funciones para identificar el tipo de spec)
+// ============================================================================
+// NOTA: Se exportan para uso interno de otros módulos (reverse.ts, etc.)
+// pero NO se re-exportan desde index.ts
+
+/**
+ * Verifica si es un campo anidado (nested)
+ */
+export function isNestedSpec<Api, Ui, K extends keyof Ui>(
+  spec: MapperxFieldSpec<Api, Ui, K>
+): spec is NestedFieldSpec<Api, Ui, K> {
+  return (
+    typeof spec === "object" &&
+    spec !== null &&
+    "schema" in spec &&
+    "from" in spec &&
+    !("each" in spec) && // NO debe tener each
+    !("computed" in spec) && // NO debe tener computed
+    !("validate" in spec) && // NO debe tener validate
+    !("transform" in spec) // NO debe tener transform
+  );
+}
+
+/**
+ * Verifica si es un campo con validación/transformación
+ */
+export function isObjectSpec<Api, Ui, K extends keyof Ui>(
+  spec: MapperxFieldSpec<Api, Ui, K>
+): spec is ObjectFieldSpec<Api, Ui, K> {
+  return (
+    typeof spec === "object" &&
+    spec !== null &&
+    "from" in spec &&
+    !("schema" in spec) && // NO debe tener schema
+    !("each" in spec) && // NO debe tener each
+    !("computed" in spec) // NO debe tener computed
+  );
+}
+
+/**
+ * Verifica si es un campo array de objetos
+ */
+export function isArraySpec<Api, Ui, K extends keyof Ui>(
+  spec: MapperxFieldSpec<Api, Ui, K>
+): spec is ArrayFieldSpec<Api, Ui, K> {
+  return (
+    typeof spec === "object" &&
+    spec !== null &&
+    "each" in spec &&
+    "from" in spec &&
+    !("schema" in spec) && // NO debe tener schema
+    !("computed" in spec) && // NO debe tener computed
+    !("validate" in spec) && // NO debe tener validate
+    !("transform" in spec) // NO debe tener transform
+  );
+}
+
+/**
+ * Verifica si es un campo computado
+ */
+export function isComputedSpec<Api, Ui, K extends keyof Ui>(
+  spec: MapperxFieldSpec<Api, Ui, K>
+): spec is ComputedFieldSpec<Ui, K> {
+  return (
+    typeof spec === "object" &&
+    spec !== null &&
+    "computed" in spec &&
+    !("from" in spec) && // NO debe tener from
+    !("schema" in spec) && // NO debe tener schema
+    !("each" in spec) // NO debe tener each
+  );
+}
+
+/**
+ * Verifica si es un schema discriminado (mxDiscriminated)
+ */
+export function isDiscriminatedSchema(
+  schema: unknown
+): schema is MapperxDiscriminatedSchema<any, any> {
+  return (
+    typeof schema === "object" &&
+    schema !== null &&
+    (schema as any)[MAPPERX_DISCRIMINATED] === true
+  );
+}
+
+/**
+ * Verifica si es un mapeo directo (string key)
+ */
+export function isDirectMapping<Api>(spec: any): spec is keyof Api {
+  return typeof spec === "string" || typeof spec === "symbol";
+}
+
+// ============================================================================
+// ERROR HANDLING
+// ============================================================================
+
+/**
+ * Ubicación completa de un error dentro de schemas anidados
+ */
+export interface MapperxErrorLocation {
+  path: Array<string | number>; // Ruta de destino: ["lines", 3, "price"]
+  sourcePath: string | null; // Ruta de origen completa: "items[3].price"
+}
+
+/**
+ * Convierte una ruta en string: ["lines", 3, "price"] → "lines[3].price"
+ */
+export function formatErrorPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, part) => {
+    if (typeof part === "number") return `${acc}[${part}]`;
+    return acc ? `${acc}.${part}` : part;
+  }, "");
+}
+
+/**
+ * Une dos rutas de origen: ("items", "[3].price") → "items[3].price"
+ */
+function joinSourcePath(parent: string, child: string): string {
+  return child.startsWith("[") ? `${parent}${child}` : `${parent}.${child}`;
+}
+
+/**
+ * Error específico de MapperX con información detallada
+ *
+ * `field`/`sourceField` describen el campo del schema donde se lanzó el error;
+ * `path`/`sourcePath` describen la ubicación COMPLETA a través de schemas
+ * anidados (el mensaje se genera una sola vez a partir de ellas)
+ */
+export class MapperxError extends Error {
+  public path: Array<string | number>;
+  public sourcePath: string | null;
+
+  constructor(
+    public field: string, // Campo de destino que falló
+    public sourceField: string | null, // Campo de origen (null si es computed)
+    public cause: Error, // Error original
+    public sourceValue?: any, // Valor que causó el error
+    location?: MapperxErrorLocation // Ubicación completa (schemas anidados)
+  ) {
+    const path = location ? location.path : [field];
+    const sourcePath = location ? location.sourcePath : sourceField;
+    const source = sourcePath ? ` (from "${sourcePath}")` : " (computed)";
+    super(
+      `Mapperx mapping error at "${formatErrorPath(path)}"${source}: ${
+        cause.message
+      }`
+    );
+    this.name = "MapperxError";
+    this.path = path;
+    this.sourcePath = sourcePath;
+  }
+
+  /**
+   * Crea una copia del error ubicada dentro de un campo padre
+   * Ejemplo: error en "city" (from "city") dentro de "address" (from "addr")
+   *   → path ["address", "city"], sourcePath "addr.city"
+   */
+  withParent(field: string, sourceField: string | null): MapperxError {
+    return new MapperxError(field, sourceField, this.cause, this.sourceValue, {
+      path: [field, ...this.path],
+      sourcePath:
+        this.sourcePath === null
+          ? null
+          : sourceField
+          ? joinSourcePath(sourceField, this.sourcePath)
+          : this.sourcePath,
+    });
+  }
+
+  /**
+   * Crea una copia del error ubicada en un elemento de un array
+   * (el campo del array se añade después con withParent)
+   */
+  atIndex(index: number): MapperxError {
+    return new MapperxError(
+      this.field,
+      this.sourceField,
+      this.cause,
+      this.sourceValue,
+      {
+        path: [index, ...this.path],
+        sourcePath:
+          this.sourcePath === null
+            ? null
+            : joinSourcePath(`[${index}]`, this.sourcePath),
+      }
+    );
+  }
+}
+
+/**
+ * Error agregado: contiene TODOS los errores de un mapeo con collectErrors
+ * Además conserva el valor parcial (solo los campos que sí se mapearon)
+ */
+export class MapperxAggregateError<Ui = any> extends Error {
+  constructor(
+    public errors: MapperxError[], // Todos los errores en orden del schema
+    public value: Partial<Ui> // Resultado parcial del mapeo
+  ) {
+    super(
+      `Mapperx mapping failed with ${errors.length} error(s):\n` +
+        errors.map((e) => `  - ${e.message}`).join("\n")
+    );
+    this.name = "MapperxAggregateError";
+  }
+}
+
+/**
+ * Error del modo estricto (strict: "error"): el source trae campos que el
+ * schema no consume. Útil en CI para detectar cambios en el contrato del Api
+ */
+export class MapperxStrictError extends Error {
+  constructor(
+    public fields: string[] // Paths no mapeados (ej. "user.middle_name")
+  ) {
+    super(
+      `Mapperx strict mode: source fields were not mapped: ${fields.join(", ")}`
+    );
+    this.name = "MapperxStrictError";
+  }
+}
+
+/**
+ * Error de cancelación: el AbortSignal de un batch se activó antes de
+ * terminar. `done` indica cuántos items alcanzaron a procesarse
+ */
+export class MapperxAbortError extends Error {
+  constructor(
+    public done: number, // Items procesados antes de cancelar
+    public total: number, // Total de items del batch
+    public reason?: unknown // signal.reason (si existe)
+  ) {
+    super(`Mapperx batch aborted after ${done} of ${total} item(s)`);
+    this.name = "MapperxAbortError";
+  }
+}
+
+/**
+ * Error de timeout de un mapeo async (timeoutMs del campo o global)
+ * Llega envuelto en un MapperxError del campo que estaba en curso
+ */
+export class MapperxTimeoutError extends Error {
+  constructor(
+    public timeoutMs: number // Límite que se superó
+  ) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "MapperxTimeoutError";
+  }
+}
+
+/**
+ * Error final de mxsAsync.withRetry: se agotaron los intentos
+ * Conserva el error de cada intento (el último también queda en `cause`)
+ */
+export class MapperxRetryError extends Error {
+  public cause: unknown;
+
+  constructor(
+    public errors: unknown[] // Error de cada intento, en orden
+  ) {
+    const last = errors[errors.length - 1];
+    const attempts = errors.length === 1 ? "attempt" : "attempts";
+    super(
+      `Validation failed after ${errors.length} ${attempts}: ${
+        last instanceof Error ? last.message : String(last)
+      }`
+    );
+    this.name = "MapperxRetryError";
+    this.cause = last;
+  }
+}
+
+/**
+ * Resultado de un mapeo "seguro" (sin excepciones)
+ */
+export type MapperxSafeResult<Ui> =
+  | { ok: true; value: Ui; errors: [] }
+  | { ok: false; value: Partial<Ui>; errors: MapperxError[] };
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+/**
+ * Política del modo estricto ante campos del source no mapeados
+ * - "warn": console.warn con la lista de paths
+ * - "error": lanza un MapperxStrictError
+ * - "ignore": no hace nada
+ */
+export type MapperxStrictMode = "warn" | "error" | "ignore";
+
+/**
+ * Contexto que recibe el callback de campos no mapeados
+ */
+export interface MapperxUnmappedFieldsContext {
+  source: unknown; // Objeto fuente que se estaba mapeando
+  mode: "sync" | "async"; // Mapper que detectó los campos
+}
+
+/**
+ * Callback para enrutar los campos no mapeados (ej. a un logger propio)
+ */
+export type MapperxUnmappedFieldsHandler = (
+  fields: string[],
+  context: MapperxUnmappedFieldsContext
+) => void;
+
+/**
+ * Logger compatible con console, pino, winston, etc.
+ * - warn: advertencias del modo estricto (por defecto console)
+ * - debug: campo mapeado
+ * - info: campo omitido o con valor `default`
+ * - error: campo que falló
+ * Los niveles por campo solo se emiten con un logger explícito y reciben
+ * el mismo evento que los hooks como segundo argumento
+ */
+export interface MapperxLogger {
+  debug?(message: string, ...args: unknown[]): void;
+  info?(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error?(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Evento de diagnóstico de un campo
+ * Los campos de schemas anidados reportan su key local
+ */
+export interface MapperxFieldEvent {
+  key: string; // Campo de destino
+  sourceField: string | null; // Path de origen (null en computados)
+  rawValue: unknown; // Valor leído del source
+  value: unknown; // Valor final asignado (undefined si no se asignó)
+}
+
+/**
+ * Evento de error de un campo
+ */
+export interface MapperxFieldErrorEvent extends MapperxFieldEvent {
+  error: MapperxError;
+}
+
+/**
+ * Opciones para el mapper
+ */
+export interface MapperxOptions<Ctx = any> {
+  /**
+   * Qué hacer con los campos del source que no están en el schema
+   * Se reportan paths profundos (ej. "user.middle_name", "items[0].sku")
+   * - true equivale a "warn"; false/undefined a "ignore"
+   * - "warn" | "error" | "ignore" o un callback onUnmappedFields(fields, context)
+   */
+  strict?: boolean | MapperxStrictMode | MapperxUnmappedFieldsHandler;
+
+  /**
+   * Si es true, continúa el mapeo aunque algunos campos fallen
+   * Los campos que fallen simplemente no se incluyen en el resultado
+   */
+  skipInvalid?: boolean;
+
+  /**
+   * Si es true, procesa TODOS los campos y acumula los errores en vez de
+   * fallar en el primero. Al final lanza un MapperxAggregateError con la
+   * lista completa de errores y el valor parcial
+   */
+  collectErrors?: boolean;
+
+  /**
+   * Contexto del usuario (locale, tenant, feature flags...)
+   * Llega a validadores, transformaciones y computados como `ctx.context`
+   */
+  context?: Ctx;
+
+  /**
+   * Idioma de los mensajes de mxs/mxsExt/mxt en este mapeo: locale
+   * registrado ("es"), catálogo o formateador (ver setMapperxMessages)
+   */
+  messages?: MapperxMessages;
+
+  /**
+   * Logger para los diagnósticos de MapperX (por defecto console)
+   * Con un logger propio también recibe los eventos por campo
+   * (debug/info/error, ver MapperxLogger)
+   */
+  logger?: MapperxLogger;
+
+  /**
+   * Hook: un campo se mapeó correctamente
+   */
+  onFieldMapped?: (event: MapperxFieldEvent) => void;
+
+  /**
+   * Hook: un campo falló (se llama antes de lanzar, acumular u omitir)
+   */
+  onFieldError?: (event: MapperxFieldErrorEvent) => void;
+
+  /**
+   * Hook: un campo no se incluyó en el resultado
+   * (opcional sin valor en el source, o inválido con skipInvalid)
+   */
+  onFieldSkipped?: (event: MapperxFieldEvent) => void;
+
+  /**
+   * Hook: se usó el valor `default` del spec
+   */
+  onDefaultUsed?: (event: MapperxFieldEvent) => void;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Segmento de un path ya parseado
+ * - string: key de objeto ("user", "email", o "*" para el wildcard)
+ * - number: índice de array (negativo = desde el final)
+ * - symbol: key symbol (solo como path de un único segmento)
+ */
+export type PathSegment = string | number | symbol;
+
+/**
+ * Wildcard: recorre todos los elementos de un array y recolecta los valores
+ */
+export const PATH_WILDCARD = "*";
+
+/**
+ * Parsea un path de origen en segmentos
+ * Ejemplos:
+ *   "user.name"          → ["user", "name"]
+ *   "contacts[0].email"  → ["contacts", 0, "email"]
+ *   "items[-1]"          → ["items", -1]
+ *   "items.*.sku"        → ["items", "*", "sku"]  (también "items[*].sku")
+ */
+export function parsePath(path: string): PathSegment[] {
+  const parts: PathSegment[] = [];
+
+  for (const part of path.split(".")) {
+    // "contacts[0]", "items[*]", "matrix[0][-1]"
+    const match = /^([^[\]]*)((?:\[(?:-?\d+|\*)\])+)$/.exec(part);
+
+    if (!match) {
+      parts.push(part);
+      continue;
+    }
+
+    if (match[1]) parts.push(match[1]);
+
+    const brackets = /\[(-?\d+|\*)\]/g;
+    let index: RegExpExecArray | null;
+    while ((index = brackets.exec(match[2]))) {
+      parts.push(index[1] === PATH_WILDCARD ? PATH_WILDCARD : Number(index[1]));
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Parsea el `from` de un spec: las keys symbol no se parsean (un segmento)
+ */
+export function parseSourcePath(from: unknown): PathSegment[] {
+  return typeof from === "symbol" ? [from] : parsePath(String(from));
+}
+
+/**
+ * Obtiene un valor de un path anidado (ya parseado) de forma segura
+ * Ejemplos:
+ *   getDeepValue({a: {b: {c: 5}}}, ["a", "b", "c"]) → 5
+ *   getDeepValue({a: {b: null}}, ["a", "b", "c"]) → undefined
+ *   getDeepValue({a: [1, 2, 3]}, ["a", -1]) → 3
+ *   getDeepValue({a: [{b: 1}, {b: 2}]}, ["a", "*", "b"]) → [1, 2]
+ */
+export function getDeepValue(obj: any, parts: PathSegment[]): any {
+  let current = obj;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+
+    // Si llegamos a null/undefined, retornar undefined
+    if (current == null) return undefined;
+
+    // Wildcard: resolver el resto del path en cada elemento del array
+    if (part === PATH_WILDCARD) {
+      if (!Array.isArray(current)) return undefined;
+      const rest = parts.slice(i + 1);
+      return current.map((item) => getDeepValue(item, rest));
+    }
+
+    // Índice numérico: solo aplica a arrays (negativo = desde el final)
+    if (typeof part === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[part < 0 ? current.length + part : part];
+      continue;
+    }
+
+    // Los primitivos no tienen propiedades navegables (ej. un string en
+    // un array mixto recorrido con wildcard)
+    if (typeof current !== "object" && typeof current !== "function") {
+      return undefined;
+    }
+
+    // Si la propiedad no existe, retornar undefined
+    if (!(part in current)) return undefined;
+
+    current = current[part];
+  }
+
+  return current;
+}
+
+/**
+ * Convierte cualquier error lanzado al mapear un campo en un MapperxError
+ * Si el error ya es un MapperxError (schema anidado), se re-ubica dentro
+ * del campo actual en vez de envolverlo otra vez
+ */
+export function toFieldError(
+  field: string,
+  sourceField: string | null,
+  e: unknown,
+  sourceValue?: any
+): MapperxError {
+  if (e instanceof MapperxError) {
+    return e.withParent(field, sourceField);
+  }
+
+  return new MapperxError(
+    field,
+    sourceField,
+    e instanceof Error ? e : new Error(String(e)),
+    sourceValue
+  );
+}
+
+/**
+ * Registra un error en modo collectErrors
+ * Si el error viene de un schema anidado (MapperxAggregateError),
+ * cada error interno se re-ubica dentro del campo externo
+ */
+export function collectFieldError(
+  errors: MapperxError[],
+  field: string,
+  sourceField: string | null,
+  e: unknown,
+  sourceValue?: any
+): void {
+  if (e instanceof MapperxAggregateError) {
+    for (const inner of e.errors) {
+      errors.push(inner.withParent(field, sourceField));
+    }
+    return;
+  }
+
+  errors.push(toFieldError(field, sourceField, e, sourceValue));
+}
+
+/**
+ * Ubica en un índice del array el error lanzado al mapear un elemento
+ */
+export function toItemError(
+  index: number,
+  e: unknown,
+  item: any
+): MapperxError[] {
+  if (e instanceof MapperxAggregateError) {
+    return e.errors.map((inner) => inner.atIndex(index));
+  }
+
+  if (e instanceof MapperxError) {
+    return [e.atIndex(index)];
+  }
+
+  return [
+    new MapperxError(
+      `[${index}]`,
+      `[${index}]`,
+      e instanceof Error ? e : new Error(String(e)),
+      item,
+      { path: [index], sourcePath: `[${index}]` }
+    ),
+  ];
+}
+
+/**
+ * Verifica que un elemento de un array de objetos sea un objeto
+ */
+export function assertArrayItem(item: unknown): void {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) {
+    throw new Error(
+      `Expected object, got ${item === null ? "null" : typeof item}`
+    );
+  }
+}
+
+// ============================================================================
+// COMPILACIÓN DE SCHEMAS
+// ============================================================================
+
+/**
+ * Tipo de un campo ya clasificado
+ */
+export type CompiledFieldKind =
+  | "direct"
+  | "object"
+  | "nested"
+  | "array"
+  | "computed"
+  | "invalid";
+
+/**
+ * Campo pre-clasificado: los type guards y el split del path se ejecutan
+ * UNA sola vez al compilar, no por cada objeto mapeado
+ */
+export interface CompiledField {
+  key: string;
+  kind: CompiledFieldKind;
+  spec: any; // Spec original del schema
+  sourceField: string | null; // Path de origen (null si es computed/inválido)
+  sourceKey: PropertyKey | null; // Key original del mapeo directo
+  parts: PathSegment[]; // Path de origen ya parseado (keys, índices, "*")
+  sources: PathSegment[][] | null; // Paths candidatos (from: [...])
+  child: CompiledSchema | null; // Plan del schema anidado (nested / array)
+}
+
+/**
+ * Variantes compiladas de un schema discriminado
+ */
+export interface CompiledDiscriminator {
+  tag: string; // Path del tag (para los mensajes de error)
+  parts: PathSegment[]; // Path del tag ya parseado
+  variants: Map<string, CompiledSchema>; // Valor del tag → plan de la variante
+  fallback: CompiledSchema | null; // Plan para tags desconocidos
+}
+
+/**
+ * Schema compilado (plan de ejecución)
+ * Es compartido por el mapper síncrono y el asíncrono
+ */
+export interface CompiledSchema {
+  fields: CompiledField[]; // Regulares, anidados y arrays (orden del schema)
+  computed: CompiledField[]; // Computados en orden topológico (se evalúan al final)
+  computedLevels: CompiledField[][]; // Computados agrupados por nivel de dependencia
+  keyOrder: string[] | null; // Keys del schema si el orden de evaluación difiere
+  source: SourceUsageNode; // Árbol de paths del source consumidos (modo estricto)
+  discriminator: CompiledDiscriminator | null; // Solo en schemas discriminados
+}
+
+/**
+ * Nodo del árbol de paths consumidos del source
+ * Ejemplo: { from: "user.name" } + nested { from: "meta", schema }
+ *   root → user → name (whole)
+ *        → meta (schemas: [plan del schema anidado])
+ */
+export interface SourceUsageNode {
+  whole: boolean; // El valor completo se consume (object spec / mapeo directo)
+  children: Map<string, SourceUsageNode>; // Sub-paths consumidos
+  schemas: CompiledSchema[]; // Schemas anidados que consumen este valor
+  items: CompiledSchema[]; // Schemas que consumen cada elemento del array
+  each: SourceUsageNode | null; // Sub-path consumido en cada elemento ("*")
+}
+
+function createSourceNode(): SourceUsageNode {
+  return {
+    whole: false,
+    children: new Map(),
+    schemas: [],
+    items: [],
+    each: null,
+  };
+}
+
+/**
+ * Obtiene (o crea) el nodo de un path dentro del árbol de consumo
+ * Los índices se guardan como key ("0", "-1") y el wildcard en `each`
+ */
+function sourceNodeAt(
+  root: SourceUsageNode,
+  parts: PathSegment[]
+): SourceUsageNode {
+  let node = root;
+
+  for (const segment of parts) {
+    if (segment === PATH_WILDCARD) {
+      node = node.each ?? (node.each = createSourceNode());
+      continue;
+    }
+
+    const part = String(segment);
+    let next = node.children.get(part);
+    if (!next) {
+      next = createSourceNode();
+      node.children.set(part, next);
+    }
+    node = next;
+  }
+
+  return node;
+}
+
+/**
+ * Compila un schema (sync o async) en un plan de ejecución
+ * Los schemas recursivos se soportan reutilizando el plan ya creado
+ */
+export function compileSchema(
+  schema: object,
+  seen: Map<object, CompiledSchema> = new Map()
+): CompiledSchema {
+  const existing = seen.get(schema);
+  if (existing) return existing;
+
+  const plan: CompiledSchema = {
+    fields: [],
+    computed: [],
+    computedLevels: [],
+    keyOrder: null,
+    source: createSourceNode(),
+    discriminator: null,
+  };
+  seen.set(schema, plan);
+
+  // Schema discriminado: sin campos propios, solo el tag y las variantes
+  if (isDiscriminatedSchema(schema)) {
+    const variants = new Map<string, CompiledSchema>();
+    for (const [value, variant] of Object.entries(schema.variants)) {
+      variants.set(value, compileSchema(variant, seen));
+    }
+
+    plan.discriminator = {
+      tag: schema.tag,
+      parts: parsePath(schema.tag),
+      variants,
+      fallback: schema.fallback ? compileSchema(schema.fallback, seen) : null,
+    };
+    sourceNodeAt(plan.source, plan.discriminator.parts).whole = true;
+    return plan;
+  }
+
+  for (const key of Object.keys(schema)) {
+    const spec = (schema as Record<string, any>)[key];
+    const field: CompiledField = {
+      key,
+      kind: "invalid",
+      spec,
+      sourceField: null,
+      sourceKey: null,
+      parts: [],
+      sources: null,
+      child: null,
+    };
+
+    if (isComputedSpec(spec)) {
+      field.kind = "computed";
+      plan.computed.push(field);
+      continue;
+    }
+
+    if (isObjectSpec(spec) && Array.isArray(spec.from)) {
+      // Varios paths candidatos: todos cuentan como consumidos
+      field.kind = "object";
+      field.sourceField = spec.from.join(" | ");
+      field.sources = spec.from.map(parseSourcePath);
+      for (const parts of field.sources) {
+        sourceNodeAt(plan.source, parts).whole = true;
+      }
+    } else if (isNestedSpec(spec) || isArraySpec(spec) || isObjectSpec(spec)) {
+      field.sourceField = String(spec.from);
+      field.parts = parseSourcePath(spec.from);
+      const node = sourceNodeAt(plan.source, field.parts);
+
+      if (isNestedSpec(spec)) {
+        field.kind = "nested";
+        field.child = compileSchema(spec.schema, seen);
+        node.schemas.push(field.child);
+      } else if (isArraySpec(spec)) {
+        field.kind = "array";
+        field.child = compileSchema(spec.each, seen);
+        node.items.push(field.child);
+      } else {
+        field.kind = "object";
+        node.whole = true;
+      }
+    } else if (isDirectMapping(spec)) {
+      field.kind = "direct";
+      field.sourceField = String(spec);
+      field.sourceKey = spec;
+      sourceNodeAt(plan.source, [field.sourceField]).whole = true;
+    }
+
+    plan.fields.push(field);
+  }
+
+  // Ordenar los computados según sus dependencias (lanza error si hay ciclos)
+  plan.computedLevels = orderComputedFields(plan.computed);
+  plan.computed = plan.computedLevels.flat();
+
+  // La salida conserva el orden de keys del schema: solo hace falta
+  // reordenarla si los computados no van al final o cambiaron de orden
+  const keys = Object.keys(schema);
+  const evaluated = [...plan.fields, ...plan.computed];
+  if (evaluated.some((field, index) => field.key !== keys[index])) {
+    plan.keyOrder = keys;
+  }
+
+  return plan;
+}
+
+/**
+ * Retorna la salida con las keys en el orden del schema
+ * (los computados se evalúan al final y por nivel de dependencia)
+ */
+export function inSchemaOrder<T extends Record<string, any>>(
+  plan: CompiledSchema,
+  out: T
+): T {
+  if (!plan.keyOrder) return out;
+
+  const ordered = {} as Record<string, any>;
+  for (const key of plan.keyOrder) {
+    if (key in out) ordered[key] = out[key];
+  }
+  return ordered as T;
+}
+
+/**
+ * Planes ya compilados por schema (WeakMap: no retiene schemas descartados)
+ */
+const compiledPlans = new WeakMap<object, CompiledSchema>();
+
+/**
+ * Retorna el plan de un schema, compilándolo solo la primera vez
+ * Lo usan mapperx, mapperxSafe, mapperxBatch, sus versiones async y los
+ * mappers compilados: mapear N veces con el mismo schema compila una vez
+ *
+ * NOTA: el schema se trata como inmutable; si se modifica después de
+ * usarlo, crea un objeto nuevo (ej. extendSchema) en lugar de mutarlo
+ */
+export function getCompiledSchema(schema: object): CompiledSchema {
+  let plan = compiledPlans.get(schema);
+  if (!plan) {
+    plan = compileSchema(schema);
+    compiledPlans.set(schema, plan);
+  }
+  return plan;
+}
+
+/**
+ * Ordena los campos computados topológicamente y los agrupa por nivel
+ * (los campos de un mismo nivel no dependen entre sí)
+ *
+ * - Con dependsOn: solo se espera a los computados declarados
+ * - Sin dependsOn: se espera a los computados anteriores en el schema,
+ *   salvo los que ya dependen (directa o indirectamente) de este campo
+ *
+ * Ejemplo: grandTotal (dependsOn: subtotal, tax), subtotal, tax
+ *   → [[subtotal], [tax], [grandTotal]]
+ *
+ * Las dependencias implícitas son O(n²) en el número de computados; se
+ * calcula una sola vez por schema (el plan se cachea en getCompiledSchema)
+ */
+function orderComputedFields(fields: CompiledField[]): CompiledField[][] {
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+  const deps = new Map<CompiledField, CompiledField[]>();
+
+  // Dependencias declaradas (solo cuentan las que son campos computados)
+  for (const field of fields) {
+    const declared: ReadonlyArray<PropertyKey> = field.spec.dependsOn ?? [];
+    deps.set(
+      field,
+      declared
+        .map((key) => byKey.get(String(key)))
+        .filter((dep): dep is CompiledField => dep !== undefined)
+    );
+  }
+
+  // Grafo inverso: quién depende de cada campo
+  const dependents = new Map<CompiledField, CompiledField[]>(
+    fields.map((field) => [field, []])
+  );
+  for (const [field, fieldDeps] of deps) {
+    for (const dep of fieldDeps) dependents.get(dep)!.push(field);
+  }
+
+  // Campos que dependen (directa o indirectamente) de `target`
+  const dependentsOf = (target: CompiledField): Set<CompiledField> => {
+    const found = new Set<CompiledField>([target]);
+    const pending = [target];
+    while (pending.length > 0) {
+      for (const dependent of dependents.get(pending.pop()!)!) {
+        if (!found.has(dependent)) {
+          found.add(dependent);
+          pending.push(dependent);
+        }
+      }
+    }
+    return found;
+  };
+
+  // Dependencias implícitas: orden clásico del schema, salvo los anteriores
+  // que ya dependen de este campo (un solo recorrido por campo)
+  fields.forEach((field, index) => {
+    if (field.spec.dependsOn) return;
+
+    const blocked = dependentsOf(field);
+    for (let i = 0; i < index; i++) {
+      const earlier = fields[i];
+      if (blocked.has(earlier)) continue;
+      deps.get(field)!.push(earlier);
+      dependents.get(earlier)!.push(field);
+    }
+  });
+
+  // Nivel de cada campo = 1 + nivel máximo de sus dependencias
+  const levels = new Map<CompiledField, number>();
+  const visiting: CompiledField[] = [];
+
+  const visit = (field: CompiledField): number => {
+    const known = levels.get(field);
+    if (known !== undefined) return known;
+
+    if (visiting.includes(field)) {
+      const cycle = [...visiting.slice(visiting.indexOf(field)), field]
+        .map((f) => f.key)
+        .join(" → ");
+      throw new Error(`Circular dependency between computed fields: ${cycle}`);
+    }
+
+    visiting.push(field);
+    let level = 0;
+    for (const dep of deps.get(field)!) {
+      level = Math.max(level, visit(dep) + 1);
+    }
+    visiting.pop();
+
+    levels.set(field, level);
+    return level;
+  };
+
+  const grouped: CompiledField[][] = [];
+  for (const field of fields) {
+    const level = visit(field);
+    (grouped[level] ??= []).push(field);
+  }
+
+  return grouped;
+}
+
+/**
+ * Indica si un valor cuenta como vacío para "coalesce-non-empty"
+ */
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Lee el valor de origen de un campo con varios paths (según su `policy`)
+ * Si ningún path tiene valor retorna undefined (aplica default/required)
+ */
+export function readSourceValues(api: any, field: CompiledField): any {
+  const values = field.sources!.map((parts) => getDeepValue(api, parts));
+  const policy: MapperxSourcePolicy = field.spec.policy ?? "first-defined";
+
+  if (policy === "all") {
+    return values.every((v) => v === undefined) ? undefined : values;
+  }
+
+  if (policy === "coalesce-non-empty") {
+    return values.find((v) => !isEmptyValue(v));
+  }
+
+  return values.find((v) => v !== undefined);
+}
+
+/**
+ * Indica si un valor es un objeto literal (los Date, Map, etc. son hojas)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Busca la variante de un schema discriminado para un objeto del source
+ * (null si el tag no coincide con ninguna y no hay fallback)
+ */
+function findVariant(
+  discriminator: CompiledDiscriminator,
+  api: unknown
+): CompiledSchema | null {
+  const tag =
+    typeof api === "object" && api !== null
+      ? getDeepValue(api, discriminator.parts)
+      : undefined;
+
+  return (
+    (tag !== undefined ? discriminator.variants.get(String(tag)) : undefined) ??
+    discriminator.fallback
+  );
+}
+
+/**
+ * Elige el plan con el que se mapea un objeto: el propio plan o, en un
+ * schema discriminado, el de su variante
+ * Un tag desconocido (sin fallback) falla en el campo del tag
+ */
+export function selectVariant(plan: CompiledSchema, api: any): CompiledSchema {
+  const { discriminator } = plan;
+  if (!discriminator) return plan;
+
+  const variant = findVariant(discriminator, api);
+  if (variant) return selectVariant(variant, api);
+
+  const tag =
+    typeof api === "object" && api !== null
+      ? getDeepValue(api, discriminator.parts)
+      : undefined;
+  const expected = [...discriminator.variants.keys()].join(", ");
+
+  throw new MapperxError(
+    discriminator.tag,
+    discriminator.tag,
+    new Error(
+      `Unknown "${discriminator.tag}" value ${
+        tag === undefined ? "undefined" : JSON.stringify(tag)
+      }. Expected one of: ${expected}`
+    ),
+    tag
+  );
+}
+
+/**
+ * Nodos de consumo que aplica un schema sobre un valor
+ * (en un schema discriminado: el tag + los de la variante elegida)
+ */
+function schemaSources(
+  schema: CompiledSchema,
+  value: unknown
+): SourceUsageNode[] {
+  const variant = schema.discriminator
+    ? findVariant(schema.discriminator, value)
+    : null;
+
+  return variant
+    ? [schema.source, ...schemaSources(variant, value)]
+    : [schema.source];
+}
+
+/**
+ * Recorre el source junto con los nodos de consumo que le aplican y acumula
+ * los paths que ningún campo del schema consume
+ */
+function collectUnmappedPaths(
+  nodes: SourceUsageNode[],
+  value: unknown,
+  path: Array<string | number>,
+  out: string[]
+): void {
+  if (nodes.some((node) => node.whole)) return;
+
+  // Un nested schema aplica su propio árbol sobre el mismo valor
+  const applied = [...nodes];
+  for (const node of applied) {
+    for (const schema of node.schemas) {
+      for (const source of schemaSources(schema, value)) {
+        if (!applied.includes(source)) applied.push(source);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const itemSchemas: CompiledSchema[] = [];
+    const eachNodes: SourceUsageNode[] = [];
+    for (const node of applied) {
+      itemSchemas.push(...node.items);
+      if (node.each) eachNodes.push(node.each);
+    }
+
+    value.forEach((item, index) => {
+      const childNodes = [
+        ...eachNodes,
+        ...itemSchemas.flatMap((schema) => schemaSources(schema, item)),
+      ];
+      for (const node of applied) {
+        // El elemento puede estar referenciado por índice positivo o negativo
+        for (const key of [String(index), String(index - value.length)]) {
+          const child = node.children.get(key);
+          if (child) childNodes.push(child);
+        }
+      }
+
+      if (childNodes.length === 0) {
+        out.push(formatErrorPath([...path, index]));
+        return;
+      }
+
+      collectUnmappedPaths(childNodes, item, [...path, index], out);
+    });
+    return;
+  }
+
+  if (!isPlainObject(value)) return;
+
+  for (const key of Object.keys(value)) {
+    const childNodes: SourceUsageNode[] = [];
+    for (const node of applied) {
+      const child = node.children.get(key);
+      if (child) childNodes.push(child);
+    }
+
+    if (childNodes.length === 0) {
+      out.push(formatErrorPath([...path, key]));
+      continue;
+    }
+
+    collectUnmappedPaths(childNodes, value[key], [...path, key], out);
+  }
+}
 
 /**
- * Campo con validación/transformación
- * Tiene 'from' pero NO tiene 'schema' ni 'computed'
+ * Calcula los paths del source que el schema NO consume (modo estricto)
+ * Recorre objetos anidados, arrays de objetos y paths con puntos, índices
+ * y wildcards, por lo que un campo nuevo dentro de un objeto ya mapeado
+ * también se detecta
+ *
+ * Ejemplo: schema { name: { from: "user.name" } }
+ *   source { user: { name: "Ana", middle_name: "M" }, extra: 1 }
+ *   → ["user.middle_name", "extra"]
  */
-export interface ObjectFieldSpec<Api, Ui, K extends keyof Ui> {
-  from: Path<Api>;
-  validate?: MapperxValidator<any>;
-  transform?: MapperxTransform<any, Ui[K]>;
-  default?: Ui[K];
-  required?: boolean;
-  nullable?: boolean;
+export function findUnmappedPaths(
+  plan: CompiledSchema,
+  api: unknown
+): string[] {
+  const out: string[] = [];
+  collectUnmappedPaths(schemaSources(plan, api), api, [], out);
+  return out;
 }
 
 /**
- * Campo anidado (nested schema)
- * Tiene 'from' Y 'schema' pero NO tiene 'computed', 'validate', ni 'transform'
+ * Aplica la política del modo estricto (compartida por sync, async y batch)
+ *
+ * Con collectErrors, si ya hay errores de campos, el error estricto se añade
+ * a `errors` (acaba en el MapperxAggregateError) en lugar de reemplazarlos
  */
-export interface NestedFieldSpec<Api, Ui, K extends keyof Ui> {
-  from: Path<Api>;
-  schema: MapperxSchema<any, Ui[K]>;
-  required?: boolean;
-  default?: Ui[K];
+export function reportUnmappedFields(
+  plan: CompiledSchema,
+  api: unknown,
+  options: MapperxOptions,
+  mode: MapperxUnmappedFieldsContext["mode"],
+  errors: MapperxError[] = []
+): void {
+  const { strict, logger } = options;
+  if (!strict || strict === "ignore") return;
+
+  const fields = findUnmappedPaths(plan, api);
+  if (fields.length === 0) return;
+
+  if (typeof strict === "function") {
+    strict(fields, { source: api, mode });
+    return;
+  }
+
+  if (strict === "error") {
+    const strictError = new MapperxStrictError(fields);
+    if (errors.length === 0) throw strictError;
+    errors.push(new MapperxError("unknown", null, strictError));
+    return;
+  }
+
+  // true | "warn"
+  const prefix = mode === "async" ? "[MapperxAsync]" : "[Mapperx]";
+  (logger ?? console).warn(
+    `${prefix} Extra fields in source object were not mapped: ${fields.join(
+      ", "
+    )}`
+  );
 }
 
 /**
- * Campo computado (BASE)
- * Tiene 'computed' pero NO tiene 'from' ni 'schema'
- *
- * NOTA: Este es el SOURCE OF TRUTH para ComputedFieldSpec
- * computed.ts puede extender este tipo para añadir variantes
+ * Añade el error estricto a los errores acumulados de una variante
+ * (schemas discriminados con collectErrors); otros errores no cambian
  */
-export interface ComputedFieldSpec<Ui, K extends keyof Ui> {
-  computed: MapperxComputed<Ui, K>;
-  default?: Ui[K]; // Opcional: valor por defecto si el computed falla
+export function withStrictErrors(
+  e: unknown,
+  plan: CompiledSchema,
+  api: unknown,
+  options: MapperxOptions,
+  mode: MapperxUnmappedFieldsContext["mode"]
+): unknown {
+  if (!(e instanceof MapperxAggregateError)) return e;
+
+  const errors = [...e.errors];
+  reportUnmappedFields(plan, api, options, mode, errors);
+  return errors.length === e.errors.length
+    ? e
+    : new MapperxAggregateError(errors, e.value);
 }
 
 /**
- * Especificación de campo - Union de todas las posibilidades
+ * Hooks de diagnóstico sin error
  */
-export type MapperxFieldSpec<Api, Ui, K extends keyof Ui = keyof Ui> =
-  | keyof Api // 1. Mapeo directo: 'id: "user_id"'
-  | ObjectFieldSpec<Api, Ui, K> // 2. Con validación/transformación
-  | NestedFieldSpec<Api, Ui, K> // 3. Schema anidado
-  | ComputedFieldSpec<Ui, K>; // 4. Campo computado
+export type MapperxFieldHook =
+  | "onFieldMapped"
+  | "onFieldSkipped"
+  | "onDefaultUsed";
 
 /**
- * Schema completo - mapea cada campo de Ui
+ * Nivel y mensaje con que cada hook se emite al logger
  */
-export type MapperxSchema<Api, Ui> = {
-  [K in keyof Ui]: MapperxFieldSpec<Api, Ui, K>;
+const FIELD_LOG: Record<
+  MapperxFieldHook,
+  { level: "debug" | "info"; message: string }
+> = {
+  onFieldMapped: { level: "debug", message: "mapped" },
+  onFieldSkipped: { level: "info", message: "skipped" },
+  onDefaultUsed: { level: "info", message: "used its default value" },
 };
 
-// ============================================================================
-// TYPE GUARDS (Funciones para identificar el tipo de spec)
-// ============================================================================
-
 /**
- * Verifica si es un campo anidado (nested)
+ * Notifica un evento de campo al hook correspondiente y al logger
+ * (solo si se configuró uno y tiene el nivel del evento)
  */
-function isNestedSpec<Api, Ui, K extends keyof Ui>(
-  spec: MapperxFieldSpec<Api, Ui, K>
-): spec is NestedFieldSpec<Api, Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "schema" in spec &&
-    "from" in spec &&
-    !("computed" in spec) && // NO debe tener computed
-    !("validate" in spec) && // NO debe tener validate
-    !("transform" in spec) // NO debe tener transform
-  );
+export function notifyField(
+  options: MapperxOptions,
+  hook: MapperxFieldHook,
+  field: CompiledField,
+  rawValue: unknown,
+  value: unknown
+): void {
+  const handler = options[hook];
+  const { level, message } = FIELD_LOG[hook];
+  const log = options.logger?.[level];
+  if (!handler && !log) return;
+
+  const event = {
+    key: field.key,
+    sourceField: field.sourceField,
+    rawValue,
+    value,
+  };
+  handler?.(event);
+  log?.call(options.logger, `[Mapperx] Field "${field.key}" ${message}`, event);
 }
 
 /**
- * Verifica si es un campo con validación/transformación
+ * Notifica el error de un campo a onFieldError y a logger.error
+ * Los errores que vienen de un schema anidado ya se notificaron en su nivel
  */
-function isObjectSpec<Api, Ui, K extends keyof Ui>(
-  spec: MapperxFieldSpec<Api, Ui, K>
-): spec is ObjectFieldSpec<Api, Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "from" in spec &&
-    !("schema" in spec) && // NO debe tener schema
-    !("computed" in spec) // NO debe tener computed
-  );
+export function notifyFieldError(
+  options: MapperxOptions,
+  field: CompiledField,
+  e: unknown,
+  rawValue: unknown
+): void {
+  const log = options.logger?.error;
+  if (!options.onFieldError && !log) return;
+
+  if (
+    (field.kind === "nested" || field.kind === "array") &&
+    (e instanceof MapperxError || e instanceof MapperxAggregateError)
+  ) {
+    return;
+  }
+
+  const event = {
+    key: field.key,
+    sourceField: field.sourceField,
+    rawValue,
+    value: undefined,
+    error: toFieldError(field.key, field.sourceField, e, rawValue),
+  };
+  options.onFieldError?.(event);
+  log?.call(options.logger, event.error.message, event);
 }
 
 /**
- * Verifica si es un campo computado
+ * Ubicación del nivel que se está mapeando (raíz y ruta de destino)
+ * Se usa para construir el MapperxContext de cada campo
  */
-function isComputedSpec<Api, Ui, K extends keyof Ui>(
-  spec: MapperxFieldSpec<Api, Ui, K>
-): spec is ComputedFieldSpec<Ui, K> {
-  return (
-    typeof spec === "object" &&
-    spec !== null &&
-    "computed" in spec &&
-    !("from" in spec) && // NO debe tener from
-    !("schema" in spec) // NO debe tener schema
-  );
+export interface MapperxScope {
+  root: unknown;
+  path: Array<string | number>;
+  batch?: Map<unknown, unknown>; // Caches/loaders del lote (mapperxBatchAsync)
 }
 
 /**
- * Verifica si es un mapeo directo (string key)
+ * Crea el scope de un schema anidado o de un elemento de array
  */
-function isDirectMapping<Api>(spec: any): spec is keyof Api {
-  return typeof spec === "string" || typeof spec === "symbol";
+export function childScope(
+  scope: MapperxScope,
+  ...segments: Array<string | number>
+): MapperxScope {
+  return {
+    root: scope.root,
+    path: [...scope.path, ...segments],
+    batch: scope.batch,
+  };
 }
 
-// ============================================================================
-// ERROR HANDLING
-// ============================================================================
-
 /**
- * Error específico de MapperX con información detallada
+ * Crea el contexto que reciben validate/transform/computed de un campo
  */
-export class MapperxError extends Error {
-  constructor(
-    public field: string, // Campo de destino que falló
-    public sourceField: string | null, // Campo de origen (null si es computed)
-    public cause: Error, // Error original
-    public sourceValue?: any // Valor que causó el error
-  ) {
-    const source = sourceField ? ` (from "${sourceField}")` : " (computed)";
-    super(`Mapperx mapping error at "${field}"${source}: ${cause.message}`);
-    this.name = "MapperxError";
-  }
+export function createFieldContext(
+  field: CompiledField,
+  api: any,
+  options: MapperxOptions,
+  scope: MapperxScope
+): MapperxContext {
+  return {
+    key: field.key,
+    path: [...scope.path, field.key],
+    sourceField: field.sourceField,
+    source: api,
+    root: scope.root,
+    options,
+    context: options.context,
+    batch: scope.batch,
+  };
 }
 
-// ============================================================================
-// OPTIONS
-// ============================================================================
-
 /**
- * Opciones para el mapper
+ * Opciones para los schemas anidados: el modo estricto ya se evalúa desde
+ * la raíz con paths completos, así que no se repite en cada nivel
  */
-export interface MapperxOptions {
-  /**
-   * Si es true, advierte sobre campos en el source que no están en el schema
-   */
-  strict?: boolean;
-
-  /**
-   * Si es true, continúa el mapeo aunque algunos campos fallen
-   * Los campos que fallen simplemente no se incluyen en el resultado
-   */
-  skipInvalid?: boolean;
+export function childOptions<O extends MapperxOptions>(options: O): O {
+  return options.strict ? { ...options, strict: false } : options;
 }
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
 /**
- * Obtiene un valor de un path anidado de forma segura
- * Ejemplos:
- *   getDeepValue({a: {b: {c: 5}}}, "a.b.c") → 5
- *   getDeepValue({a: {b: null}}, "a.b.c") → undefined
+ * Mapea cada elemento de un array de objetos con su schema compilado
+ * - skipInvalidItems: omite los elementos que fallan
+ * - collectErrors: acumula los errores de TODOS los elementos
+ * - en otro caso: falla en el primer elemento inválido
  */
-function getDeepValue(obj: any, path: string): any {
-  const parts = path.split(".");
-  let current = obj;
+function mapArrayItems(
+  items: unknown,
+  field: CompiledField,
+  options: MapperxOptions,
+  scope: MapperxScope
+): any[] {
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected array, got ${typeof items}`);
+  }
 
-  for (const part of parts) {
-    // Si llegamos a null/undefined, retornar undefined
-    if (current == null) return undefined;
+  const result: any[] = [];
+  const errors: MapperxError[] = [];
 
-    // Si la propiedad no existe, retornar undefined
-    if (!(part in current)) return undefined;
+  items.forEach((item, index) => {
+    try {
+      assertArrayItem(item);
+      result.push(
+        runCompiledSchema(
+          field.child!,
+          item,
+          childOptions(options),
+          childScope(scope, field.key, index)
+        )
+      );
+    } catch (e) {
+      if (field.spec.skipInvalidItems) return;
 
-    current = current[part];
+      const itemErrors = toItemError(index, e, item);
+      if (!options.collectErrors) throw itemErrors[0];
+      errors.push(...itemErrors);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new MapperxAggregateError(errors, result);
   }
 
-  return current;
+  return result;
 }
 
 // ============================================================================
@@ -208,65 +1575,62 @@ function getDeepValue(obj: any, path: string): any {
 // ============================================================================
 
 /**
- * Mapea un objeto Api a un objeto Ui usando un schema
- *
- * @param api Objeto fuente (API response)
- * @param schema Schema de mapeo
- * @param options Opciones de configuración
- * @returns Objeto mapeado de tipo Ui
- *
- * @example
- * ```typescript
- * const schema: MapperxSchema<ApiUser, UiUser> = {
- *   id: 'user_id',
- *   email: { from: 'email_address', validate: mxs.email },
- *   fullName: mxc((m, src) => `${src.first_name} ${src.last_name}`)
- * };
- *
- * const uiUser = mapperx(apiUser, schema);
- * ```
+ * Ejecuta un schema compilado sobre un objeto fuente
+ * (motor compartido por mapperx, mapperxBatch y compileMapper)
  */
-export function mapperx<Api extends object, Ui extends object>(
-  api: Api,
-  schema: MapperxSchema<Api, Ui>,
-  options: MapperxOptions = {}
-): Ui {
+export function runCompiledSchema(
+  plan: CompiledSchema,
+  api: any,
+  options: MapperxOptions,
+  scope: MapperxScope = { root: api, path: [] }
+): any {
+  // Schema discriminado: se mapea con la variante del objeto
+  // (el modo estricto se evalúa aquí, con el tag incluido)
+  if (plan.discriminator) {
+    let out: any;
+    try {
+      out = runCompiledSchema(
+        selectVariant(plan, api),
+        api,
+        childOptions(options),
+        scope
+      );
+    } catch (e) {
+      throw withStrictErrors(e, plan, api, options, "sync");
+    }
+    reportUnmappedFields(plan, api, options, "sync");
+    return out;
+  }
+
   // Objeto de salida (acumulamos los campos mapeados aquí)
   const out = {} as Record<string, any>;
 
-  // Lista de campos computados (se procesan al final)
-  const computedFields: Array<keyof Ui> = [];
+  // Errores acumulados (solo en modo collectErrors)
+  const errors: MapperxError[] = [];
 
   // ============================================================================
   // FASE 1: PROCESAR CAMPOS REGULARES Y ANIDADOS
   // ============================================================================
 
-  for (const key of Object.keys(schema) as Array<keyof Ui>) {
-    const spec = schema[key];
-
-    // Si es un campo computado, guardarlo para después
-    if (isComputedSpec(spec)) {
-      computedFields.push(key);
-      continue;
-    }
-
-    let sourceField: string;
+  for (const field of plan.fields) {
+    const { key, spec } = field;
     let sourceVal: any;
+    let hook: MapperxFieldHook | null = null; // Se notifica fuera del try
 
-    try {
+    mapping: try {
       // ----------------------------------------------------------------
       // CASO 1: CAMPO ANIDADO (nested schema)
       // ----------------------------------------------------------------
-      if (isNestedSpec(spec)) {
-        sourceField = String(spec.from);
-        sourceVal = getDeepValue(api, sourceField);
+      if (field.kind === "nested") {
+        sourceVal = getDeepValue(api, field.parts);
 
         // Si el valor no existe o es null
         if (sourceVal === undefined || sourceVal === null) {
           // Usar default si está disponible
           if ("default" in spec && spec.default !== undefined) {
-            out[key as string] = spec.default;
-            continue;
+            out[key] = spec.default;
+            hook = "onDefaultUsed";
+            break mapping;
           }
 
           // Si es requerido, lanzar error
@@ -275,31 +1639,65 @@ export function mapperx<Api extends object, Ui extends object>(
           }
 
           // Si no es requerido y no hay default, simplemente continuar
-          continue;
+          hook = "onFieldSkipped";
+          break mapping;
         }
 
         // Mapear el objeto anidado recursivamente
-        out[key as string] = mapperx(sourceVal, spec.schema, options);
-        continue;
+        out[key] = runCompiledSchema(
+          field.child!,
+          sourceVal,
+          childOptions(options),
+          childScope(scope, key)
+        );
+        hook = "onFieldMapped";
+        break mapping;
+      }
+
+      // ----------------------------------------------------------------
+      // CASO 2: ARRAY DE OBJETOS (cada elemento con su schema)
+      // ----------------------------------------------------------------
+      if (field.kind === "array") {
+        sourceVal = getDeepValue(api, field.parts);
+
+        if (sourceVal === undefined || sourceVal === null) {
+          if ("default" in spec && spec.default !== undefined) {
+            out[key] = spec.default;
+            hook = "onDefaultUsed";
+            break mapping;
+          }
+          if (spec.required !== false) {
+            throw new Error("Required array is undefined or null");
+          }
+          hook = "onFieldSkipped";
+          break mapping;
+        }
+
+        out[key] = mapArrayItems(sourceVal, field, options, scope);
+        hook = "onFieldMapped";
+        break mapping;
       }
 
       // ----------------------------------------------------------------
-      // CASO 2: CAMPO CON VALIDACIÓN/TRANSFORMACIÓN
+      // CASO 3: CAMPO CON VALIDACIÓN/TRANSFORMACIÓN
       // ----------------------------------------------------------------
-      if (isObjectSpec(spec)) {
-        sourceField = String(spec.from);
-        sourceVal = getDeepValue(api, sourceField);
+      if (field.kind === "object") {
+        sourceVal = field.sources
+          ? readSourceValues(api, field)
+          : getDeepValue(api, field.parts);
 
         // Manejar valores undefined
         if (sourceVal === undefined) {
           if ("default" in spec && spec.default !== undefined) {
-            out[key as string] = spec.default;
-            continue;
+            out[key] = spec.default;
+            hook = "onDefaultUsed";
+            break mapping;
           }
           if (spec.required !== false) {
             throw new Error("Required field is undefined");
           }
-          continue;
+          hook = "onFieldSkipped";
+          break mapping;
         }
 
         // Manejar valores null
@@ -308,135 +1706,176 @@ export function mapperx<Api extends object, Ui extends object>(
         }
 
         let val = sourceVal;
+        const ctx =
+          spec.validate || spec.transform
+            ? createFieldContext(field, api, options, scope)
+            : undefined;
 
         // Aplicar validación si existe
         if (spec.validate) {
-          val = spec.validate(val);
+          val = spec.validate(val, ctx);
         }
 
         // Aplicar transformación si existe
         if (spec.transform) {
-          val = spec.transform(val, api);
+          val = spec.transform(val, api, ctx);
         }
 
-        out[key as string] = val;
-        continue;
+        out[key] = val;
+        hook = "onFieldMapped";
+        break mapping;
       }
 
       // ----------------------------------------------------------------
-      // CASO 3: MAPEO DIRECTO (string key)
+      // CASO 4: MAPEO DIRECTO (string key)
       // ----------------------------------------------------------------
-      if (isDirectMapping<Api>(spec)) {
-        sourceField = String(spec);
-        sourceVal = (api as any)[spec];
+      if (field.kind === "direct") {
+        sourceVal = api[field.sourceKey!];
 
         if (sourceVal === undefined) {
           throw new Error("Field is undefined in source");
         }
 
-        out[key as string] = sourceVal;
-        continue;
+        out[key] = sourceVal;
+        hook = "onFieldMapped";
+        break mapping;
       }
 
       // ----------------------------------------------------------------
-      // CASO 4: ESPECIFICACIÓN INVÁLIDA
+      // CASO 5: ESPECIFICACIÓN INVÁLIDA
       // ----------------------------------------------------------------
       throw new Error(
-        `Invalid field specification for "${String(key)}". ` +
-          `Must be a key, object spec, nested spec, or computed spec.`
+        `Invalid field specification for "${key}". ` +
+          `Must be a key, object spec, nested spec, array spec, or computed spec.`
       );
     } catch (e) {
-      // Crear error detallado
-      const err = new MapperxError(
-        String(key),
-        sourceField!,
-        e instanceof Error ? e : new Error(String(e)),
-        sourceVal
-      );
+      notifyFieldError(options, field, e, sourceVal);
+
+      // Modo collectErrors: registrar y seguir con el siguiente campo
+      if (options.collectErrors) {
+        // Conservar el valor parcial del schema anidado
+        if (e instanceof MapperxAggregateError) {
+          out[key] = e.value;
+        }
+        collectFieldError(errors, key, field.sourceField, e, sourceVal);
+        continue;
+      }
+
+      // Crear error detallado (con la ruta completa si viene de un nested)
+      const err = toFieldError(key, field.sourceField, e, sourceVal);
 
       // Si skipInvalid está activado, solo continuar
       if (options.skipInvalid) {
+        notifyField(options, "onFieldSkipped", field, sourceVal, undefined);
         continue;
       }
 
       // Si no, lanzar el error
       throw err;
     }
+
+    // Hooks fuera del try: un error del hook no cuenta como fallo del campo
+    if (hook) {
+      notifyField(
+        options,
+        hook,
+        field,
+        sourceVal,
+        hook === "onFieldSkipped" ? undefined : out[key]
+      );
+    }
   }
 
   // ============================================================================
   // FASE 2: PROCESAR CAMPOS COMPUTADOS
   // ============================================================================
 
-  for (const key of computedFields) {
-    const spec = schema[key];
-
-    // Verificación de tipo (debería ser siempre true aquí)
-    if (!isComputedSpec(spec)) {
-      console.warn(
-        `[Mapperx] Field "${String(
-          key
-        )}" was marked as computed but spec is invalid`
-      );
-      continue;
-    }
+  for (const field of plan.computed) {
+    const { key, spec } = field;
 
     try {
       // Ejecutar la función computada
-      out[key as string] = spec.computed(out as Partial<Ui>, api);
+      out[key] = spec.computed(
+        out,
+        api,
+        createFieldContext(field, api, options, scope)
+      );
     } catch (e) {
       const err = new MapperxError(
-        String(key),
+        key,
         null, // Los campos computados no tienen sourceField
         e instanceof Error ? e : new Error(String(e))
       );
+      notifyFieldError(options, field, e, undefined);
 
-      if (options.skipInvalid) {
+      if (options.collectErrors) {
+        errors.push(err);
+      }
+
+      if (options.skipInvalid || options.collectErrors) {
         // Si hay un default, usarlo
         if ("default" in spec && spec.default !== undefined) {
-          out[key as string] = spec.default;
+          out[key] = spec.default;
+          notifyField(options, "onDefaultUsed", field, undefined, out[key]);
+        } else {
+          notifyField(options, "onFieldSkipped", field, undefined, undefined);
         }
         continue;
       }
 
       throw err;
     }
+
+    notifyField(options, "onFieldMapped", field, undefined, out[key]);
   }
 
   // ============================================================================
   // FASE 3: MODO ESTRICTO (OPCIONAL)
   // ============================================================================
 
-  if (options.strict) {
-    // Recolectar todos los campos del source que están siendo mapeados
-    const schemaFields = new Set<string>();
-
-    for (const key of Object.keys(schema) as Array<keyof Ui>) {
-      const spec = schema[key];
-
-      if (isObjectSpec(spec) || isNestedSpec(spec)) {
-        // Obtener el campo raíz del path
-        const path = String(spec.from);
-        const rootField = path.split(".")[0];
-        schemaFields.add(rootField);
-      } else if (isDirectMapping(spec)) {
-        schemaFields.add(String(spec));
-      }
-    }
+  // Paths del source (incluso anidados) que el schema no consume
+  reportUnmappedFields(plan, api, options, "sync", errors);
 
-    // Encontrar campos extra en el source
-    const extraFields = Object.keys(api).filter((k) => !schemaFields.has(k));
+  // ============================================================================
+  // FASE 4: REPORTE DE ERRORES ACUMULADOS (collectErrors)
+  // ============================================================================
 
-    if (extraFields.length > 0) {
-      console.warn(
-        `[Mapperx] Extra fields in source object were not mapped: ${extraFields.join(
-          ", "
-        )}`
-      );
-    }
+  if (errors.length > 0) {
+    throw new MapperxAggregateError(errors, inSchemaOrder(plan, out));
   }
 
-  return out as Ui;
+  return inSchemaOrder(plan, out);
+}
+
+/**
+ * Mapea un objeto Api a un objeto Ui usando un schema
+ *
+ * El schema se compila en la primera llamada y el plan se reutiliza en las
+ * siguientes (ver getCompiledSchema): el schema es inmutable una vez usado,
+ * los cambios posteriores sobre el mismo objeto se ignoran
+ *
+ * @param api Objeto fuente (API response)
+ * @param schema Schema de mapeo
+ * @param options Opciones de configuración
+ * @returns Objeto mapeado de tipo Ui
+ *
+ * @example
+ * ```typescript
+ * const schema: MapperxSchema<ApiUser, UiUser> = {
+ *   id: 'user_id',
+ *   email: { from: 'email_address', validate: mxs.email },
+ *   fullName: mxc((m, src) => `${src.first_name} ${src.last_name}`)
+ * };
+ *
+ * const uiUser = mapperx(apiUser, schema);
+ * ```
+ */
+export function mapperx<Api extends object, Ui extends object, Ctx = any>(
+  api: Api,
+  schema: MapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxOptions<Ctx> = {}
+): Ui {
+  return runCompiledSchema(getCompiledSchema(schema), api, options);
 }
 
 /**
@@ -444,6 +1883,82 @@ export function mapperx<Api extends object, Ui extends object>(
  */
 export const mx = mapperx;
 
+/**
+ * Función de mapeo compilada
+ */
+export type CompiledMapper<Api, Ui> = (api: Api) => Ui;
+
+/**
+ * Compila un schema en una función de mapeo reutilizable
+ *
+ * Los campos se clasifican y los paths se dividen UNA sola vez;
+ * la semántica y los errores son idénticos a los de mapperx
+ * (el plan es el mismo que usa mapperx: el schema es inmutable una vez usado)
+ *
+ * @param schema Schema de mapeo
+ * @param options Opciones de configuración (fijas para el mapper compilado)
+ * @returns Función (api) => Ui
+ *
+ * @example
+ * ```typescript
+ * const mapRow = compileMapper(rowSchema, { skipInvalid: true });
+ * const rows = apiRows.map(mapRow);
+ * ```
+ */
+export function compileMapper<Api extends object, Ui extends object, Ctx = any>(
+  schema: MapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxOptions<Ctx> = {}
+): CompiledMapper<Api, Ui> {
+  const plan = getCompiledSchema(schema);
+  return (api: Api): Ui => runCompiledSchema(plan, api, options);
+}
+
+/**
+ * Mapea sin lanzar excepciones: ejecuta TODOS los campos (collectErrors)
+ * y retorna un resultado discriminado con el valor y la lista de errores
+ *
+ * @example
+ * ```typescript
+ * const result = mapperxSafe(apiForm, formSchema);
+ * if (!result.ok) {
+ *   result.errors.forEach((e) => console.log(e.field, e.cause.message));
+ * }
+ * ```
+ */
+export function mapperxSafe<Api extends object, Ui extends object, Ctx = any>(
+  api: Api,
+  schema: MapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxOptions<Ctx> = {}
+): MapperxSafeResult<Ui> {
+  try {
+    const value = mapperx(api, schema, { ...options, collectErrors: true });
+    return { ok: true, value, errors: [] };
+  } catch (e) {
+    return toSafeFailure<Ui>(e);
+  }
+}
+
+/**
+ * Convierte un error lanzado por el mapper en un resultado fallido
+ * (compartido con mapperxSafeAsync)
+ */
+export function toSafeFailure<Ui>(e: unknown): MapperxSafeResult<Ui> {
+  if (e instanceof MapperxAggregateError) {
+    return { ok: false, value: e.value, errors: e.errors };
+  }
+
+  const error =
+    e instanceof MapperxError
+      ? e
+      : new MapperxError(
+          "unknown",
+          null,
+          e instanceof Error ? e : new Error(String(e))
+        );
+
+  return { ok: false, value: {}, errors: [error] };
+}
+
 // ============================================================================
 // BATCH PROCESSING
 // ============================================================================
@@ -459,7 +1974,8 @@ export interface MapperxBatchResult<T> {
   errors: Array<{
     index: number; // Índice del item que falló
     item: any; // Item original que causó el error
-    error: MapperxError; // Error detallado
+    error: MapperxError; // Error detallado (el primero con collectErrors)
+    errors?: MapperxError[]; // Todos los errores del item (solo con collectErrors)
   }>;
 }
 
@@ -479,21 +1995,41 @@ export interface MapperxBatchResult<T> {
  * console.log(`Errores: ${result.errors.length}`);
  * ```
  */
-export function mapperxBatch<Api extends object, Ui extends object>(
+export function mapperxBatch<Api extends object, Ui extends object, Ctx = any>(
   items: Api[],
-  schema: MapperxSchema<Api, Ui>,
-  options: MapperxOptions = {}
+  schema: MapperxSchemaLike<Api, Ui, Ctx>,
+  options: MapperxOptions<Ctx> = {}
+): MapperxBatchResult<Ui> {
+  // El schema se compila una sola vez para todo el lote
+  return runCompiledBatch(getCompiledSchema(schema), items, options);
+}
+
+/**
+ * Ejecuta un lote con un plan ya compilado (mapperxBatch, createMapper)
+ */
+export function runCompiledBatch<Ui>(
+  plan: CompiledSchema,
+  items: readonly object[],
+  options: MapperxOptions
 ): MapperxBatchResult<Ui> {
   const data: Ui[] = [];
   const errors: MapperxBatchResult<Ui>["errors"] = [];
 
   items.forEach((item, index) => {
     try {
-      const mapped = mapperx(item, schema, options);
+      const mapped: Ui = runCompiledSchema(plan, item, options);
       data.push(mapped);
     } catch (error) {
-      // Si es un MapperxError, guardarlo directamente
-      if (error instanceof MapperxError) {
+      // Con collectErrors: reportar todos los errores del item
+      if (error instanceof MapperxAggregateError) {
+        errors.push({
+          index,
+          item,
+          error: error.errors[0],
+          errors: error.errors,
+        });
+      } else if (error instanceof MapperxError) {
+        // Si es un MapperxError, guardarlo directamente
         errors.push({ index, item, error });
       } else {
         // Si es otro tipo de error, envolverlo
@@ -16,24 +16,51 @@ export {
   mapperxBatch,
   mxBatch, // Alias corto
 
+  // Mapeo sin excepciones (acumula todos los errores)
+  mapperxSafe,
+
+  // Schemas compilados (hot paths)
+  compileMapper,
+  CompiledMapper,
+
   // Tipos de schema
   MapperxSchema,
   MapperxFieldSpec,
+  MapperxSchemaLike, // schema normal o discriminado
+  MapperxDiscriminatedSchema, // ver mxDiscriminated
 
   // Tipos de especificaciones (definidos en core.ts)
   ObjectFieldSpec, // { from: ..., validate: ..., transform: ... }
   NestedFieldSpec, // { from: ..., schema: ... }
+  ArrayFieldSpec, // { from: ..., each: ... }
   ComputedFieldSpec, // { computed: ... } - SOURCE OF TRUTH
+  MapperxSourcePolicy, // from: [...] → "first-defined" | "all" | "coalesce-non-empty"
 
   // Tipos de funciones
   MapperxTransform,
+  MapperxFieldTransform, // transform de un campo: (val, src, ctx)
   MapperxComputed,
+  MapperxContext, // { key, path, sourceField, source, root, options, context }
 
   // Configuración
   MapperxOptions,
+  MapperxStrictMode, // "warn" | "error" | "ignore"
+  MapperxUnmappedFieldsHandler, // (fields, context) => void
+  MapperxUnmappedFieldsContext,
+  MapperxLogger, // { debug?, info?, warn, error? } (console, pino, winston...)
+  MapperxFieldEvent, // onFieldMapped / onFieldSkipped / onDefaultUsed
+  MapperxFieldErrorEvent, // onFieldError
 
   // Error handling
   MapperxError,
+  MapperxErrorLocation, // { path, sourcePath }
+  formatErrorPath, // ["lines", 3, "price"] → "lines[3].price"
+  MapperxAggregateError, // Todos los errores (collectErrors)
+  MapperxSafeResult,
+  MapperxStrictError, // strict: "error"
+  MapperxAbortError, // batch async cancelado (signal)
+  MapperxTimeoutError, // timeoutMs (campo o global) en mapperxAsync
+  MapperxRetryError, // mxsAsync.withRetry agotó los intentos
 
   // Batch result
   MapperxBatchResult,
@@ -56,6 +83,7 @@ export {
   RequiredKeys, // Obtiene keys requeridas
   PartialBy, // Hace específicas keys opcionales
   RequiredBy, // Hace específicas keys requeridas
+  DeepPartial, // Partial recursivo (anidados y arrays)
 
   // Internal types (por si se necesitan)
   Primitive,
@@ -77,9 +105,32 @@ export {
 
   // Tipos
   MapperxValidator, // (val: unknown) => T
-  ValidationError, // Error de validación
+  MapperxStep, // Paso de mxs.pipe: (val: In) => Out
+  MapperxRefineMessage, // Mensaje de mxs.refine: texto | { code, params }
+  MapperxValidatorBuilder, // Modificadores comunes: optional, nullable, default, refine
+  MapperxNumberBuilder, // mxs.number().int().min(0).max(100)
+  MapperxStringBuilder, // mxs.string().trim().email().max(120)
+  MapperxBuilderKinds,
+  MapperxFluentValidator, // mxs.number(val) | mxs.number()
+  ValidationError, // Error de validación (con issues)
+  ValidationIssue, // { path, code, message, expected, received, step }
+  ValidationErrorDetails,
 } from "./validators";
 
+export {
+  // Mensajes de error (códigos + i18n)
+  setMapperxMessages, // "es" | catálogo | (code, params) => string
+  registerMapperxMessages, // Añade códigos/traducciones a un locale
+  formatMapperxMessage,
+  mxMessagesEn,
+  mxMessagesEs,
+  MapperxMessages,
+  MapperxMessageCatalog,
+  MapperxMessageTemplate,
+  MapperxMessageFormatter,
+  MapperxMessageParams,
+} from "./messages";
+
 // ============================================================================
 // 4. TRANSFORMS - Transformadores de datos
 // ============================================================================
@@ -142,24 +193,74 @@ export {
   mxa, // Alias corto
   mapperxBatchAsync,
   mxBatchAsync, // Alias corto
+  mapperxSafeAsync,
+  compileMapperAsync,
+  CompiledAsyncMapper,
 
   // Tipos async
   AsyncMapperxValidator,
   AsyncMapperxTransform,
+  AsyncMapperxFieldTransform,
   AsyncMapperxComputed,
   AsyncMapperxSchema,
+  AsyncMapperxSchemaLike,
   AsyncMapperxFieldSpec,
   AsyncObjectFieldSpec,
   AsyncNestedFieldSpec,
+  AsyncArrayFieldSpec,
   AsyncComputedFieldSpec,
   AsyncMapperxBatchResult,
+  MapperxAsyncOptions, // { parallelFields, timeoutMs, signal }
+  MapperxBatchAsyncOptions, // { concurrency, signal, onProgress }
 
   // Helpers async
-  mxsAsync, // { fetchJson, withDelay, withRetry }
+  mxsAsync, // { batchLoader, cached, fetchJson, withDelay, withRetry }
+  MapperxBatchLoaderOptions, // { key, maxBatchSize }
+  MapperxRetryOptions, // { maxRetries, backoff, shouldRetry, onRetry, ... }
+  MapperxCacheOptions, // { key, ttlMs, maxEntries, scope }
+  CachedAsyncMapperxValidator,
 } from "./async";
 
 // ============================================================================
-// 7. TYPE HELPERS - Helpers de inferencia de tipos
+// 7. REVERSE - Mapeo inverso (Ui → Api)
+// ============================================================================
+
+export {
+  // Función de mapeo inverso (usa el mismo schema que mapperx)
+  mapperxReverse,
+  mxReverse, // Alias corto
+
+  // Configuración
+  MapperxReverseOptions,
+} from "./reverse";
+
+// ============================================================================
+// 8. MAPPER - Mapper reutilizable por entidad
+// ============================================================================
+
+export {
+  // Factory: schema + opciones por defecto
+  createMapper,
+
+  // Tipos
+  Mapper, // { map, mapMany, mapAsync, mapManyAsync, safeMap, toApi, ... }
+} from "./mapper";
+
+// ============================================================================
+// 9. SCHEMA COMPOSITION - Reutilización de schemas
+// ============================================================================
+
+export {
+  extendSchema, // base + campos extra
+  mergeSchemas, // varios schemas en uno (gana el último)
+  pickSchema, // solo algunas keys
+  omitSchema, // sin algunas keys
+  partialSchema, // todos los campos required: false
+  mxDiscriminated, // unión discriminada por un campo tag del source
+} from "./schema";
+
+// ============================================================================
+// 10. TYPE HELPERS - Helpers de inferencia de tipos
 // ============================================================================
 
 import type { MapperxSchema } from "./core";
@@ -201,7 +302,7 @@ export type InferSchemaInput<S> = S extends MapperxSchema<infer Api, any>
   : never;
 
 // ============================================================================
-// 8. TYPE ALIASES - Aliases para uso más cómodo
+// 11. TYPE ALIASES - Aliases para uso más cómodo
 // ============================================================================
 
 import type {
@@ -242,7 +343,7 @@ export type FieldSpec<Api, Ui, K extends keyof Ui> = MapperxFieldSpec<
 >;
 
 // ============================================================================
-// 9. UTILITY FUNCTIONS - Funciones de utilidad
+// 12. UTILITY FUNCTIONS - Funciones de utilidad
 // ============================================================================
 
 import { MapperxError, MapperxOptions } from "./core";
@@ -285,28 +386,37 @@ export function isMapperxError(error: unknown): error is MapperxError {
 /**
  * Extrae información útil de un MapperxError
  *
+ * `path` y `sourcePath` apuntan al campo exacto aunque el error
+ * haya ocurrido dentro de schemas anidados
+ *
  * @example
  * ```typescript
  * const info = getErrorInfo(error);
- * console.log(`Error in ${info.field}: ${info.message}`);
+ * console.log(`Error in ${formatErrorPath(info.path)}: ${info.message}`);
+ * // Error in lines[3].price: Cannot convert "x" to number
+ * console.log(info.sourcePath); // "items[3].price"
  * ```
  */
 export function getErrorInfo(error: MapperxError): {
   field: string;
   sourceField: string | null;
+  path: Array<string | number>;
+  sourcePath: string | null;
   message: string;
   sourceValue?: any;
 } {
   return {
     field: error.field,
     sourceField: error.sourceField,
+    path: error.path,
+    sourcePath: error.sourcePath,
     message: error.cause.message,
     sourceValue: error.sourceValue,
   };
 }
 
 // ============================================================================
-// 10. PRESET OPTIONS - Configuraciones predefinidas
+// 13. PRESET OPTIONS - Configuraciones predefinidas
 // ============================================================================
 
 /**
@@ -350,14 +460,14 @@ export const LENIENT_OPTIONS: MapperxOptions = {
 };
 
 // ============================================================================
-// 11. VERSION INFO
+// 14. VERSION INFO
 // ============================================================================
 
 export const MAPPERX_VERSION = "2.0.0";
 export const MAPPERX_NAME = "MapperX-TS Enterprise Edition";
 
 // ============================================================================
-// 12. DEFAULT EXPORT
+// 15. DEFAULT EXPORT
 // ============================================================================
 
 import { mapperx } from "./core";
@@ -375,7 +485,7 @@ import { mapperx } from "./core";
 export default mapperx;
 
 // ============================================================================
-// 13. QUICK START GUIDE (Solo comentarios para documentación)
+// 16. QUICK START GUIDE (Solo comentarios para documentación)
 // ============================================================================
 
 /**
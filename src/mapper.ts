@@ -0,0 +1,142 @@
+// ============================================================================
+// MAPPERX-TS - MAPPER MODULE (Mapper reutilizable por entidad)
+// ============================================================================
+
+import {
+  MapperxSchemaLike,
+  MapperxOptions,
+  MapperxBatchResult,
+  MapperxSafeResult,
+  getCompiledSchema,
+  runCompiledBatch,
+  runCompiledSchema,
+  toSafeFailure,
+} from "./core";
+import {
+  AsyncMapperxBatchResult,
+  MapperxAsyncOptions,
+  MapperxBatchAsyncOptions,
+  runCompiledBatchAsync,
+  runCompiledSchemaAsync,
+} from "./async";
+import { mapperxReverse, MapperxReverseOptions } from "./reverse";
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Mapper asociado a un schema y a unas opciones por defecto
+ * Las opciones de cada llamada se combinan con las opciones por defecto
+ */
+export interface Mapper<Api extends object, Ui extends object, Ctx = any> {
+  /** Schema de mapeo */
+  readonly schema: MapperxSchemaLike<Api, Ui, Ctx>;
+
+  /** Opciones por defecto */
+  readonly options: MapperxOptions<Ctx>;
+
+  /** Mapea un objeto (equivalente a mapperx) */
+  map(api: Api, options?: MapperxOptions<Ctx>): Ui;
+
+  /** Mapea un array de objetos (equivalente a mapperxBatch) */
+  mapMany(items: Api[], options?: MapperxOptions<Ctx>): MapperxBatchResult<Ui>;
+
+  /** Mapea un objeto de forma asíncrona (equivalente a mapperxAsync) */
+  mapAsync(api: Api, options?: MapperxAsyncOptions<Ctx>): Promise<Ui>;
+
+  /** Mapea un array de forma asíncrona (equivalente a mapperxBatchAsync) */
+  mapManyAsync(
+    items: Api[],
+    options?: MapperxBatchAsyncOptions<Ctx>
+  ): Promise<AsyncMapperxBatchResult<Ui>>;
+
+  /** Mapea sin lanzar excepciones (equivalente a mapperxSafe) */
+  safeMap(api: Api, options?: MapperxOptions<Ctx>): MapperxSafeResult<Ui>;
+
+  /** Versión async de safeMap (equivalente a mapperxSafeAsync) */
+  safeMapAsync(
+    api: Api,
+    options?: MapperxAsyncOptions<Ctx>
+  ): Promise<MapperxSafeResult<Ui>>;
+
+  /** Mapeo inverso Ui → Api (equivalente a mapperxReverse) */
+  toApi(ui: Partial<Ui>, options?: MapperxReverseOptions): Api;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Crea un mapper reutilizable para una entidad
+ *
+ * El schema se compila una sola vez al crear el mapper: es inmutable a
+ * partir de ese momento (los cambios posteriores sobre el objeto se ignoran)
+ *
+ * @param schema Schema de mapeo
+ * @param defaultOptions Opciones por defecto (se pueden sobrescribir por llamada)
+ * @returns Mapper con map, mapMany, mapAsync, mapManyAsync, safeMap y toApi
+ *
+ * @example
+ * ```typescript
+ * const userMapper = createMapper(userSchema, { strict: true });
+ *
+ * const user = userMapper.map(apiUser);
+ * const users = userMapper.mapMany(apiUsers, { skipInvalid: true });
+ * const payload = userMapper.toApi(user);
+ * ```
+ */
+export function createMapper<Api extends object, Ui extends object, Ctx = any>(
+  schema: MapperxSchemaLike<Api, Ui, Ctx>,
+  defaultOptions: MapperxOptions<Ctx> = {}
+): Mapper<Api, Ui, Ctx> {
+  const plan = getCompiledSchema(schema);
+
+  // Combina las opciones por defecto con las de la llamada
+  const resolve = (options?: MapperxOptions<Ctx>): MapperxOptions<Ctx> =>
+    options ? { ...defaultOptions, ...options } : defaultOptions;
+
+  return {
+    schema,
+    options: defaultOptions,
+
+    map: (api, options) => runCompiledSchema(plan, api, resolve(options)),
+
+    mapMany: (items, options) =>
+      runCompiledBatch<Ui>(plan, items, resolve(options)),
+
+    mapAsync: (api, options) =>
+      runCompiledSchemaAsync(plan, api, { ...defaultOptions, ...options }),
+
+    mapManyAsync: (items, options) =>
+      runCompiledBatchAsync<Ui>(plan, items, { ...defaultOptions, ...options }),
+
+    safeMap: (api, options) => {
+      try {
+        const value: Ui = runCompiledSchema(plan, api, {
+          ...resolve(options),
+          collectErrors: true,
+        });
+        return { ok: true, value, errors: [] };
+      } catch (e) {
+        return toSafeFailure<Ui>(e);
+      }
+    },
+
+    safeMapAsync: async (api, options) => {
+      try {
+        const value: Ui = await runCompiledSchemaAsync(plan, api, {
+          ...defaultOptions,
+          ...options,
+          collectErrors: true,
+        });
+        return { ok: true, value, errors: [] };
+      } catch (e) {
+        return toSafeFailure<Ui>(e);
+      }
+    },
+
+    toApi: (ui, options) => mapperxReverse(ui, schema, options),
+  };
+}
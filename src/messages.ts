@@ -0,0 +1,296 @@
+// ============================================================================
+// MAPPERX-TS - MESSAGES MODULE (códigos de error e i18n)
+// ============================================================================
+
+import type { MapperxContext } from "./core";
+
+/**
+ * Parámetros de un mensaje: { min: 10, received: 4 }
+ */
+export type MapperxMessageParams = Record<string, unknown>;
+
+/**
+ * Plantilla de un mensaje
+ * - string con placeholders: "Value {received} is less than minimum {min}"
+ * - función que recibe los parámetros
+ */
+export type MapperxMessageTemplate =
+  | string
+  | ((params: MapperxMessageParams) => string);
+
+/**
+ * Catálogo de mensajes: código → plantilla
+ */
+export type MapperxMessageCatalog = Record<string, MapperxMessageTemplate>;
+
+/**
+ * Formateador personalizado (ej. i18next). Si retorna undefined se usa el
+ * catálogo en inglés
+ */
+export type MapperxMessageFormatter = (
+  code: string,
+  params: MapperxMessageParams
+) => string | undefined;
+
+/**
+ * Mensajes a usar: locale registrado ("en", "es"...), catálogo o formateador
+ */
+export type MapperxMessages =
+  | string
+  | MapperxMessageCatalog
+  | MapperxMessageFormatter;
+
+// ============================================================================
+// CATÁLOGOS INCLUIDOS
+// ============================================================================
+
+/**
+ * Artículo en inglés para "expects a string" / "expects an array"
+ */
+const article = (word: unknown): string =>
+  /^[aeiou]/i.test(String(word)) ? "an" : "a";
+
+/**
+ * Mensajes en inglés (por defecto)
+ */
+export const mxMessagesEn: MapperxMessageCatalog = {
+  // Tipos básicos
+  "string.type": "Expected string, got null/undefined",
+  "number.type": (p) =>
+    typeof p.received === "number"
+      ? "Expected number, got NaN"
+      : `Cannot convert "${p.received}" to number`,
+  "number.finite": (p) =>
+    typeof p.received === "number"
+      ? "Expected finite number, got Infinity"
+      : `Cannot convert "${p.received}" to finite number`,
+  "boolean.type": `Cannot convert "{received}" to boolean. Expected true/false, 1/0, or "true"/"false"`,
+  "date.invalid": (p) =>
+    p.received instanceof Date
+      ? "Invalid Date object"
+      : `Invalid date: "${p.received}"`,
+  "array.type": "Expected array",
+  "enum.value": `Expected one of [{values}], got "{received}"`,
+  "literal.value": "Expected literal value {expected}, got {received}",
+
+  // Strings
+  "string.email": `Invalid email format: "{received}"`,
+  "string.url": `Invalid URL format: "{received}"`,
+  "string.uuid": `Invalid UUID format: "{received}"`,
+  "string.minLength": "String length {length} is less than minimum {min}",
+  "string.maxLength": "String length {length} is greater than maximum {max}",
+  "string.pattern": `String "{received}" does not match pattern {pattern}`,
+  "string.nonEmpty": "String cannot be empty",
+
+  // Números
+  "number.min": "Value {received} is less than minimum {min}",
+  "number.max": "Value {received} is greater than maximum {max}",
+  "number.range": "Value {received} is outside range [{min}, {max}]",
+  "number.integer": "Expected integer, got {received}",
+  "number.positive": "Expected positive number, got {received}",
+  "number.negative": "Expected negative number, got {received}",
+
+  // Validadores compuestos (título del mensaje)
+  "array.items": "Array validation failed",
+  "object.type": "Expected object",
+  "object.properties": "Object validation failed",
+  "record.type": "Expected record object",
+  "record.values": "Record validation failed",
+  "tuple.type": "Expected array for tuple",
+  "tuple.length": "Expected tuple of length {expected}, got {length}",
+  "tuple.items": "Tuple validation failed",
+  "union.noMatch":
+    "Value does not match any of the union types. Errors:\n{errors}",
+  "union.option": "Option {option}: {message}",
+
+  // Combinadores
+  "all.failed": "Value failed {count} validations",
+  "refine.failed": "Value {received} failed refinement",
+
+  // Transformaciones
+  "transform.type": (p) =>
+    `${p.name} expects ${article(p.expected)} ${p.expected}`,
+  "transform.divideByZero": "Cannot divide by zero",
+  "transform.stringify": "Cannot stringify value",
+  "transform.json": "Invalid JSON: {received}",
+};
+
+/**
+ * Mensajes en español
+ */
+export const mxMessagesEs: MapperxMessageCatalog = {
+  // Tipos básicos
+  "string.type": "Se esperaba un string, se recibió null/undefined",
+  "number.type": (p) =>
+    typeof p.received === "number"
+      ? "Se esperaba un número, se recibió NaN"
+      : `No se puede convertir "${p.received}" a número`,
+  "number.finite": (p) =>
+    typeof p.received === "number"
+      ? "Se esperaba un número finito, se recibió Infinity"
+      : `No se puede convertir "${p.received}" a un número finito`,
+  "boolean.type": `No se puede convertir "{received}" a boolean. Se esperaba true/false, 1/0 o "true"/"false"`,
+  "date.invalid": (p) =>
+    p.received instanceof Date
+      ? "Objeto Date inválido"
+      : `Fecha inválida: "${p.received}"`,
+  "array.type": "Se esperaba un array",
+  "enum.value": `Se esperaba uno de [{values}], se recibió "{received}"`,
+  "literal.value":
+    "Se esperaba el valor literal {expected}, se recibió {received}",
+
+  // Strings
+  "string.email": `Formato de email inválido: "{received}"`,
+  "string.url": `Formato de URL inválido: "{received}"`,
+  "string.uuid": `Formato de UUID inválido: "{received}"`,
+  "string.minLength": "La longitud {length} es menor que el mínimo {min}",
+  "string.maxLength": "La longitud {length} es mayor que el máximo {max}",
+  "string.pattern": `El string "{received}" no cumple el patrón {pattern}`,
+  "string.nonEmpty": "El string no puede estar vacío",
+
+  // Números
+  "number.min": "El valor {received} es menor que el mínimo {min}",
+  "number.max": "El valor {received} es mayor que el máximo {max}",
+  "number.range": "El valor {received} está fuera del rango [{min}, {max}]",
+  "number.integer": "Se esperaba un entero, se recibió {received}",
+  "number.positive": "Se esperaba un número positivo, se recibió {received}",
+  "number.negative": "Se esperaba un número negativo, se recibió {received}",
+
+  // Validadores compuestos (título del mensaje)
+  "array.items": "La validación del array falló",
+  "object.type": "Se esperaba un objeto",
+  "object.properties": "La validación del objeto falló",
+  "record.type": "Se esperaba un objeto record",
+  "record.values": "La validación del record falló",
+  "tuple.type": "Se esperaba un array para la tupla",
+  "tuple.length":
+    "Se esperaba una tupla de longitud {expected}, se recibió {length}",
+  "tuple.items": "La validación de la tupla falló",
+  "union.noMatch":
+    "El valor no coincide con ninguno de los tipos de la unión. Errores:\n{errors}",
+  "union.option": "Opción {option}: {message}",
+
+  // Combinadores
+  "all.failed": "El valor no pasó {count} validaciones",
+  "refine.failed": "El valor {received} no cumple la condición",
+
+  // Transformaciones
+  "transform.type": "{name} espera un {expected}",
+  "transform.divideByZero": "No se puede dividir entre cero",
+  "transform.stringify": "No se puede convertir el valor a JSON",
+  "transform.json": "JSON inválido: {received}",
+};
+
+// ============================================================================
+// REGISTRO GLOBAL
+// ============================================================================
+
+/**
+ * Catálogos registrados por locale
+ */
+const catalogs: Record<string, MapperxMessageCatalog> = {
+  en: { ...mxMessagesEn },
+  es: { ...mxMessagesEs },
+};
+
+/**
+ * Mensajes globales (se pueden sobrescribir por mapeo con options.messages)
+ */
+let globalMessages: MapperxMessages = "en";
+
+/**
+ * Define los mensajes globales: locale registrado, catálogo o formateador
+ *
+ * @example
+ * ```typescript
+ * setMapperxMessages("es");
+ * setMapperxMessages((code, params) => i18n.t(`mapperx.${code}`, params));
+ * ```
+ */
+export function setMapperxMessages(messages: MapperxMessages): void {
+  globalMessages = messages;
+}
+
+/**
+ * Añade mensajes a un locale (nuevos códigos o traducciones completas)
+ *
+ * @example
+ * ```typescript
+ * registerMapperxMessages("pt", { "number.min": "O valor {received} é menor que {min}" });
+ * registerMapperxMessages("es", { "order.sku": "SKU inválido: {received}" });
+ * ```
+ */
+export function registerMapperxMessages(
+  locale: string,
+  catalog: MapperxMessageCatalog
+): void {
+  catalogs[locale] = { ...catalogs[locale], ...catalog };
+}
+
+// ============================================================================
+// FORMATO
+// ============================================================================
+
+/**
+ * Reemplaza los placeholders {param} de una plantilla
+ */
+function interpolate(
+  template: MapperxMessageTemplate,
+  params: MapperxMessageParams
+): string {
+  if (typeof template === "function") return template(params);
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in params)) return match;
+    const value = params[name];
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+}
+
+/**
+ * Busca un código en los mensajes indicados
+ */
+function lookup(
+  messages: MapperxMessages,
+  code: string,
+  params: MapperxMessageParams
+): string | undefined {
+  if (typeof messages === "function") return messages(code, params);
+
+  const catalog = typeof messages === "string" ? catalogs[messages] : messages;
+  const template = catalog?.[code];
+  return template !== undefined ? interpolate(template, params) : undefined;
+}
+
+/**
+ * Formatea el mensaje de un código
+ * Orden: options.messages del mapeo → `local` (catálogos propios de un
+ * validador, ej. mxs.custom) en el locale activo → mensajes globales →
+ * inglés (`local` y registrado) → código
+ */
+export function formatMapperxMessage(
+  code: string,
+  params: MapperxMessageParams = {},
+  ctx?: MapperxContext,
+  local?: Record<string, MapperxMessageCatalog>
+): string {
+  const scoped = ctx?.options?.messages;
+
+  // Locale activo: el del mapeo o, si no es un locale, el global
+  const locale =
+    typeof scoped === "string"
+      ? scoped
+      : typeof globalMessages === "string"
+      ? globalMessages
+      : undefined;
+  const localCatalog = locale !== undefined ? local?.[locale] : undefined;
+
+  return (
+    (scoped !== undefined ? lookup(scoped, code, params) : undefined) ??
+    (localCatalog ? lookup(localCatalog, code, params) : undefined) ??
+    lookup(globalMessages, code, params) ??
+    (local?.en ? lookup(local.en, code, params) : undefined) ??
+    lookup("en", code, params) ??
+    code
+  );
+}
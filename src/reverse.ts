@@ -0,0 +1,276 @@
+// ============================================================================
+// MAPPERX-TS - REVERSE MODULE (Ui → Api)
+// ============================================================================
+
+import {
+  MapperxSchemaLike,
+  MapperxDiscriminatedSchema,
+  isDiscriminatedSchema,
+  toFieldError,
+  isNestedSpec,
+  isArraySpec,
+  isObjectSpec,
+  isComputedSpec,
+  isDirectMapping,
+  parseSourcePath,
+  PathSegment,
+  PATH_WILDCARD,
+} from "./core";
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+/**
+ * Opciones para el mapeo inverso
+ */
+export interface MapperxReverseOptions {
+  /**
+   * Si es true, escribe también los valores undefined en el objeto Api
+   * Por defecto los campos undefined se omiten (útil para PATCH parciales)
+   */
+  keepUndefined?: boolean;
+
+  /**
+   * Si es true, continúa el mapeo aunque alguna transformación inversa falle
+   */
+  skipInvalid?: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Obtiene (o crea) el contenedor hijo donde se escribe el siguiente segmento
+ * Se crea un array si el siguiente segmento es un índice o un wildcard
+ */
+function ensureContainer(
+  parent: any,
+  key: PathSegment,
+  next: PathSegment
+): any {
+  if (typeof parent[key] !== "object" || parent[key] === null) {
+    parent[key] = typeof next === "number" || next === PATH_WILDCARD ? [] : {};
+  }
+
+  return parent[key];
+}
+
+/**
+ * Escribe un valor en un path anidado, creando los objetos intermedios
+ * Ejemplos:
+ *   setDeepValue({}, "a.b.c", 5) → { a: { b: { c: 5 } } }
+ *   setDeepValue({ a: { x: 1 } }, "a.b", 2) → { a: { x: 1, b: 2 } }
+ *   setDeepValue({}, "contacts[0].email", "x") → { contacts: [{ email: "x" }] }
+ *   setDeepValue({}, "items.*.sku", ["A", "B"]) → { items: [{ sku: "A" }, { sku: "B" }] }
+ *   setDeepValue({}, sym, 1) → { [sym]: 1 }  (las keys symbol no se parsean)
+ */
+function setDeepValue(
+  obj: Record<PropertyKey, any>,
+  path: unknown,
+  value: any
+) {
+  writePath(obj, parseSourcePath(path), value);
+}
+
+function writePath(container: any, parts: PathSegment[], value: any): void {
+  const [part, ...rest] = parts;
+
+  // Wildcard: cada elemento del valor (array) va a un elemento del destino
+  if (part === PATH_WILDCARD) {
+    if (!Array.isArray(value)) return;
+
+    value.forEach((item, index) => {
+      if (rest.length === 0) {
+        container[index] = item;
+      } else {
+        writePath(ensureContainer(container, index, rest[0]), rest, item);
+      }
+    });
+    return;
+  }
+
+  // Índice negativo: se resuelve contra el array existente
+  const key =
+    typeof part === "number" && part < 0 ? container.length + part : part;
+
+  if (typeof key === "number" && key < 0) {
+    throw new Error(
+      `Cannot write index ${String(part)}: the target array has ${
+        container.length
+      } element(s)`
+    );
+  }
+
+  if (rest.length === 0) {
+    container[key] = value;
+    return;
+  }
+
+  writePath(ensureContainer(container, key, rest[0]), rest, value);
+}
+
+/**
+ * Elige la variante de un schema discriminado para un objeto Ui: la primera
+ * cuyo campo mapeado desde el tag tiene el valor de la variante
+ * (aplicando `reverse` si el campo lo define)
+ */
+function reverseVariant<Api, Ui>(
+  ui: Partial<Ui>,
+  schema: MapperxDiscriminatedSchema<Api, Ui>
+): MapperxSchemaLike<Api, Ui> {
+  for (const [tag, variant] of Object.entries(schema.variants)) {
+    for (const [key, spec] of Object.entries(variant)) {
+      const from = isDirectMapping(spec)
+        ? String(spec)
+        : isObjectSpec(spec) && !Array.isArray(spec.from)
+        ? String(spec.from)
+        : null;
+      const uiValue = (ui as Record<string, unknown>)[key];
+      if (from !== schema.tag || uiValue === undefined) continue;
+
+      const value = spec.reverse ? spec.reverse(uiValue, ui) : uiValue;
+      if (String(value) === tag) return variant as MapperxSchemaLike<Api, Ui>;
+    }
+  }
+
+  if (schema.fallback) return schema.fallback as MapperxSchemaLike<Api, Ui>;
+
+  throw toFieldError(
+    schema.tag,
+    schema.tag,
+    new Error(
+      `Cannot choose a variant: no field mapped from "${schema.tag}" matches ` +
+        `one of: ${Object.keys(schema.variants).join(", ")}`
+    )
+  );
+}
+
+// ============================================================================
+// MAIN REVERSE MAPPER
+// ============================================================================
+
+/**
+ * Mapea un objeto Ui de vuelta a su forma Api usando el MISMO schema
+ *
+ * Reglas:
+ * - Mapeo directo ('id: "user_id"') → escribe en api.user_id
+ * - Object spec ({ from: "a.b" }) → escribe en api.a.b (aplica `reverse` si existe)
+ *   Con from: ["a", "b"] se escribe solo en el primer path
+ * - Nested spec → se mapea recursivamente y se escribe en `from`
+ * - Array spec → cada elemento se mapea con `each` y se escribe en `from`
+ * - Campos computados → se omiten (no tienen origen en el Api)
+ * - Schema discriminado → se usa la variante cuyo tag coincide con el Ui
+ *
+ * @param ui Objeto de dominio/UI
+ * @param schema Schema de mapeo (el mismo que se usa con mapperx)
+ * @param options Opciones de configuración
+ * @returns Objeto con la forma del Api
+ *
+ * @example
+ * ```typescript
+ * const schema: MapperxSchema<ApiUser, UiUser> = {
+ *   id: 'user_id',
+ *   city: { from: 'address.city' },
+ *   active: {
+ *     from: 'status',
+ *     transform: (v) => v === 'A',
+ *     reverse: (v) => (v ? 'A' : 'I'),
+ *   },
+ * };
+ *
+ * const payload = mapperxReverse(uiUser, schema);
+ * // { user_id: 1, address: { city: 'Quito' }, status: 'A' }
+ * ```
+ */
+export function mapperxReverse<Api extends object, Ui extends object>(
+  ui: Partial<Ui>,
+  schema: MapperxSchemaLike<Api, Ui>,
+  options: MapperxReverseOptions = {}
+): Api {
+  // Schema discriminado: se invierte con la variante del objeto
+  // (la variante elegida ya escribe el tag)
+  if (isDiscriminatedSchema(schema)) {
+    return mapperxReverse(ui, reverseVariant(ui, schema), options);
+  }
+
+  const out = {} as Record<PropertyKey, any>;
+
+  for (const key of Object.keys(schema) as Array<keyof Ui>) {
+    const spec = schema[key];
+
+    // Los campos computados no tienen destino en el Api
+    if (isComputedSpec(spec)) continue;
+
+    const value = ui[key];
+
+    if (value === undefined && !options.keepUndefined) continue;
+
+    let targetField: string | null = null;
+
+    try {
+      // CASO 1: Nested schema → recursión
+      if (isNestedSpec(spec)) {
+        targetField = String(spec.from);
+        setDeepValue(
+          out,
+          spec.from,
+          typeof value === "object" && value !== null
+            ? mapperxReverse(value, spec.schema, options)
+            : value
+        );
+        continue;
+      }
+
+      // CASO 2: Array de objetos → cada elemento con su schema
+      if (isArraySpec(spec)) {
+        targetField = String(spec.from);
+        setDeepValue(
+          out,
+          spec.from,
+          Array.isArray(value)
+            ? value.map((item) => mapperxReverse(item, spec.each, options))
+            : value
+        );
+        continue;
+      }
+
+      // CASO 3: Object spec → transformación inversa opcional
+      // Con varios paths candidatos se escribe en el primero
+      if (isObjectSpec(spec)) {
+        const target = Array.isArray(spec.from) ? spec.from[0] : spec.from;
+        targetField = String(target);
+        const val =
+          spec.reverse && value !== undefined
+            ? spec.reverse(value as Ui[typeof key], ui)
+            : value;
+        setDeepValue(out, target, val);
+        continue;
+      }
+
+      // CASO 4: Mapeo directo
+      if (isDirectMapping<Api>(spec)) {
+        targetField = String(spec); // Solo para el mensaje de error
+        out[spec] = value;
+        continue;
+      }
+
+      throw new Error(
+        `Invalid field specification for "${String(key)}". ` +
+          `Must be a key, object spec, nested spec, array spec, or computed spec.`
+      );
+    } catch (e) {
+      if (options.skipInvalid) continue;
+
+      throw toFieldError(String(key), targetField, e, value);
+    }
+  }
+
+  return out as Api;
+}
+
+/**
+ * Alias corto para mapperxReverse
+ */
+export const mxReverse = mapperxReverse;
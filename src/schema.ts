@@ -0,0 +1,355 @@
+// ============================================================================
+// MAPPERX-TS - SCHEMA COMPOSITION MODULE
+// ============================================================================
+
+import {
+  MapperxSchema,
+  MapperxSchemaLike,
+  MapperxDiscriminatedSchema,
+  MAPPERX_DISCRIMINATED,
+  isNestedSpec,
+  isArraySpec,
+  isObjectSpec,
+  isDirectMapping,
+  isDiscriminatedSchema,
+  MapperxFieldSpec,
+} from "./core";
+import {
+  AsyncMapperxSchema,
+  AsyncMapperxSchemaLike,
+  AsyncMapperxFieldSpec,
+} from "./async";
+import { DeepPartial } from "./types";
+
+// ============================================================================
+// TIPOS AUXILIARES
+// ============================================================================
+
+/**
+ * Cualquier schema plano (sync o async) visto como registro de specs,
+ * usado por las implementaciones de los helpers
+ */
+type SchemaRecord = Record<
+  PropertyKey,
+  MapperxFieldSpec<any, any, any> | AsyncMapperxFieldSpec<any, any, any>
+>;
+
+/**
+ * Convierte una unión en una intersección: A | B → A & B
+ */
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (
+  x: infer I
+) => void
+  ? I
+  : never;
+
+/**
+ * Extrae el tipo Api de un schema (sync, async o discriminado)
+ */
+type SchemaApi<S> = S extends MapperxDiscriminatedSchema<infer Api, any>
+  ? Api
+  : S extends MapperxSchema<infer Api, any>
+  ? Api
+  : S extends AsyncMapperxSchema<infer Api, any>
+  ? Api
+  : never;
+
+/**
+ * Extrae el tipo Ui de un schema (sync, async o discriminado)
+ */
+type SchemaUi<S> = S extends MapperxDiscriminatedSchema<any, infer Ui>
+  ? Ui
+  : S extends MapperxSchema<any, infer Ui>
+  ? Ui
+  : S extends AsyncMapperxSchema<any, infer Ui>
+  ? Ui
+  : never;
+
+/**
+ * Api combinado de varios schemas
+ */
+type MergedApi<S extends any[]> = UnionToIntersection<SchemaApi<S[number]>>;
+
+/**
+ * Ui combinado de varios schemas
+ */
+type MergedUi<S extends any[]> = UnionToIntersection<SchemaUi<S[number]>>;
+
+/**
+ * Unión de los Api de las variantes: CardDto | TransferDto
+ */
+type VariantsApi<V> = { [T in keyof V]: SchemaApi<V[T]> }[keyof V];
+
+/**
+ * Unión de los Ui de las variantes: Card | Transfer
+ */
+type VariantsUi<V> = { [T in keyof V]: SchemaUi<V[T]> }[keyof V];
+
+// ============================================================================
+// COMPOSICIÓN
+// ============================================================================
+
+/**
+ * Extiende un schema base con campos adicionales
+ * Los campos de `extra` sobrescriben a los del base con la misma key
+ *
+ * @example
+ * ```typescript
+ * const auditSchema: MapperxSchema<AuditDto, Audit> = {
+ *   id: 'id',
+ *   createdAt: { from: 'created_at', validate: mxs.date },
+ * };
+ *
+ * const userFields: MapperxSchema<UserDto, Pick<User, 'name'>> = {
+ *   name: 'user_name',
+ * };
+ *
+ * const userSchema: MapperxSchema<UserDto, User> = extendSchema(
+ *   auditSchema,
+ *   userFields
+ * );
+ * ```
+ */
+export function extendSchema<BaseApi, Base, ExtraApi, Extra>(
+  base: MapperxSchema<BaseApi, Base>,
+  extra: MapperxSchema<ExtraApi, Extra>
+): MapperxSchema<BaseApi & ExtraApi, Omit<Base, keyof Extra> & Extra>;
+export function extendSchema<BaseApi, Base, ExtraApi, Extra>(
+  base: AsyncMapperxSchema<BaseApi, Base>,
+  extra: AsyncMapperxSchema<ExtraApi, Extra>
+): AsyncMapperxSchema<BaseApi & ExtraApi, Omit<Base, keyof Extra> & Extra>;
+export function extendSchema(
+  base: SchemaRecord,
+  extra: SchemaRecord
+): SchemaRecord {
+  return { ...base, ...extra };
+}
+
+/**
+ * Combina varios schemas en uno solo
+ * Si varios schemas definen la misma key, gana el último
+ *
+ * @example
+ * ```typescript
+ * const orderSchema: MapperxSchema<OrderDto, Order> = mergeSchemas(
+ *   idSchema,
+ *   auditSchema,
+ *   orderFields
+ * );
+ * ```
+ */
+export function mergeSchemas<S extends MapperxSchema<any, any>[]>(
+  ...schemas: S
+): MapperxSchema<MergedApi<S>, MergedUi<S>>;
+export function mergeSchemas<S extends AsyncMapperxSchema<any, any>[]>(
+  ...schemas: S
+): AsyncMapperxSchema<MergedApi<S>, MergedUi<S>>;
+export function mergeSchemas(...schemas: SchemaRecord[]): SchemaRecord {
+  return Object.assign({}, ...schemas);
+}
+
+/**
+ * Crea un schema solo con las keys indicadas
+ *
+ * @example
+ * ```typescript
+ * const summarySchema = pickSchema(userSchema, ['id', 'name']);
+ * // MapperxSchema<UserDto, Pick<User, 'id' | 'name'>>
+ * ```
+ */
+export function pickSchema<Api, Ui, K extends keyof Ui>(
+  schema: MapperxSchema<Api, Ui>,
+  keys: readonly K[]
+): MapperxSchema<Api, Pick<Ui, K>>;
+export function pickSchema<Api, Ui, K extends keyof Ui>(
+  schema: AsyncMapperxSchema<Api, Ui>,
+  keys: readonly K[]
+): AsyncMapperxSchema<Api, Pick<Ui, K>>;
+export function pickSchema(
+  schema: SchemaRecord,
+  keys: readonly PropertyKey[]
+): SchemaRecord {
+  const out: SchemaRecord = {};
+
+  for (const key of keys) {
+    if (key in schema) {
+      out[key] = schema[key];
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Crea un schema sin las keys indicadas
+ *
+ * @example
+ * ```typescript
+ * const publicSchema = omitSchema(userSchema, ['passwordHash']);
+ * // MapperxSchema<UserDto, Omit<User, 'passwordHash'>>
+ * ```
+ */
+export function omitSchema<Api, Ui, K extends keyof Ui>(
+  schema: MapperxSchema<Api, Ui>,
+  keys: readonly K[]
+): MapperxSchema<Api, Omit<Ui, K>>;
+export function omitSchema<Api, Ui, K extends keyof Ui>(
+  schema: AsyncMapperxSchema<Api, Ui>,
+  keys: readonly K[]
+): AsyncMapperxSchema<Api, Omit<Ui, K>>;
+export function omitSchema(
+  schema: SchemaRecord,
+  keys: readonly PropertyKey[]
+): SchemaRecord {
+  const out: SchemaRecord = { ...schema };
+
+  for (const key of keys) {
+    delete out[key];
+  }
+
+  return out;
+}
+
+/**
+ * Marca todos los campos del schema como opcionales (required: false)
+ * - Mapeo directo 'id: "user_id"' → { from: "user_id", required: false, nullable: true }
+ *   (nullable conserva la semántica del mapeo directo, que acepta null;
+ *   las keys symbol se conservan tal cual en `from`)
+ * - Object specs → se añade required: false
+ * - Nested/array specs → required: false y su `schema` / `each` también
+ *   se vuelve parcial (incluidas las variantes de un schema discriminado)
+ * - Campos computados → sin cambios
+ *
+ * Útil para PATCH/updates parciales donde el Api no envía todos los campos
+ *
+ * @example
+ * ```typescript
+ * const patchSchema = partialSchema(userSchema);
+ * mapperx({ user_name: 'Ana' }, patchSchema); // { name: 'Ana' }
+ * ```
+ */
+export function partialSchema<Api, Ui>(
+  schema: MapperxSchema<Api, Ui>
+): MapperxSchema<Api, DeepPartial<Ui>>;
+export function partialSchema<Api, Ui>(
+  schema: AsyncMapperxSchema<Api, Ui>
+): AsyncMapperxSchema<Api, DeepPartial<Ui>>;
+export function partialSchema(schema: SchemaRecord): SchemaRecord {
+  return partialFields(schema, new Map());
+}
+
+/**
+ * Versión parcial de un schema anidado (plano o discriminado)
+ * `seen` reutiliza el resultado en schemas recursivos
+ */
+function partialSchemaLike(
+  schema: object,
+  seen: Map<object, object>
+): MapperxSchemaLike<any, any> | AsyncMapperxSchemaLike<any, any> {
+  if (!isDiscriminatedSchema(schema)) {
+    return partialFields(schema as SchemaRecord, seen);
+  }
+
+  const cached = seen.get(schema);
+  if (cached) return cached as MapperxDiscriminatedSchema<any, any>;
+
+  const out = { ...schema, variants: { ...schema.variants } };
+  seen.set(schema, out);
+
+  for (const tag of Object.keys(out.variants)) {
+    out.variants[tag] = partialSchemaLike(out.variants[tag], seen);
+  }
+  if (out.fallback) out.fallback = partialSchemaLike(out.fallback, seen);
+
+  return out;
+}
+
+/**
+ * Marca como opcionales los campos de un schema plano
+ */
+function partialFields(
+  schema: SchemaRecord,
+  seen: Map<object, object>
+): SchemaRecord {
+  const cached = seen.get(schema);
+  if (cached) return cached as SchemaRecord;
+
+  const out: SchemaRecord = {};
+  seen.set(schema, out);
+
+  for (const key of Object.keys(schema)) {
+    const spec = schema[key];
+
+    if (isNestedSpec(spec)) {
+      out[key] = {
+        ...spec,
+        required: false,
+        schema: partialSchemaLike(spec.schema, seen),
+      };
+    } else if (isArraySpec(spec)) {
+      out[key] = {
+        ...spec,
+        required: false,
+        each: partialSchemaLike(spec.each, seen),
+      };
+    } else if (isObjectSpec(spec)) {
+      out[key] = { ...spec, required: false };
+    } else if (isDirectMapping(spec)) {
+      out[key] = { from: spec, required: false, nullable: true };
+    } else {
+      out[key] = spec;
+    }
+  }
+
+  return out;
+}
+
+// ============================================================================
+// UNIONES DISCRIMINADAS
+// ============================================================================
+
+/**
+ * Crea un schema discriminado: cada objeto se mapea con el schema de la
+ * variante indicada por su campo `tag`, y el resultado se tipa como la
+ * unión de los Ui de las variantes
+ * - Se usa como schema raíz (mapperx, mapperxAsync, batch...), como
+ *   `schema` de un campo anidado o como `each` de un array
+ * - Un tag desconocido falla en ese campo, salvo que haya `fallback`
+ *
+ * @example
+ * ```typescript
+ * const paymentSchema = mxDiscriminated('type', {
+ *   card: cardSchema, // MapperxSchema<CardDto, CardPayment>
+ *   transfer: transferSchema, // MapperxSchema<TransferDto, TransferPayment>
+ * });
+ *
+ * const payment = mapperx(dto, paymentSchema); // CardPayment | TransferPayment
+ *
+ * const orderSchema: MapperxSchema<OrderDto, Order> = {
+ *   payments: { from: 'payments', each: paymentSchema },
+ * };
+ * ```
+ */
+export function mxDiscriminated<
+  V extends Record<
+    string,
+    MapperxSchemaLike<any, any> | AsyncMapperxSchemaLike<any, any>
+  >,
+  F extends
+    | MapperxSchemaLike<any, any>
+    | AsyncMapperxSchemaLike<any, any> = never
+>(
+  tag: string,
+  variants: V,
+  fallback?: F
+): MapperxDiscriminatedSchema<
+  VariantsApi<V> | SchemaApi<F>,
+  VariantsUi<V> | SchemaUi<F>
+> {
+  return {
+    [MAPPERX_DISCRIMINATED]: true,
+    tag,
+    variants,
+    ...(fallback ? { fallback } : {}),
+  };
+}
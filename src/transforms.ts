@@ -2,18 +2,41 @@
 // MAPPERX-TS - TRANSFORMS MODULE
 // ============================================================================
 
-import { MapperxTransform } from "./core";
+import { MapperxTransform, MapperxContext } from "./core";
+import { formatMapperxMessage, MapperxMessageParams } from "./messages";
 
 /**
  * Error personalizado para transformaciones
  */
 export class TransformError extends Error {
-  constructor(message: string, public value: unknown) {
+  constructor(
+    message: string,
+    public value: unknown,
+    public code: string = "custom", // "transform.type", "transform.json"...
+    public params: MapperxMessageParams = {}
+  ) {
     super(message);
     this.name = "TransformError";
   }
 }
 
+/**
+ * Crea el error de un código con su mensaje en el idioma configurado
+ */
+function transformError(
+  code: string,
+  val: unknown,
+  ctx?: MapperxContext,
+  params: MapperxMessageParams = {}
+): TransformError {
+  return new TransformError(
+    formatMapperxMessage(code, params, ctx),
+    val,
+    code,
+    params
+  );
+}
+
 // ============================================================================
 // TRANSFORMADORES DE STRING
 // ============================================================================
@@ -22,9 +45,12 @@ export const mxt = {
   /**
    * Elimina espacios en blanco al inicio y final
    */
-  trim: (val: string): string => {
+  trim: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("trim expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "trim",
+        expected: "string",
+      });
     }
     return val.trim();
   },
@@ -32,9 +58,12 @@ export const mxt = {
   /**
    * Convierte a minúsculas
    */
-  toLowerCase: (val: string): string => {
+  toLowerCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("toLowerCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "toLowerCase",
+        expected: "string",
+      });
     }
     return val.toLowerCase();
   },
@@ -42,9 +71,12 @@ export const mxt = {
   /**
    * Convierte a mayúsculas
    */
-  toUpperCase: (val: string): string => {
+  toUpperCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("toUpperCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "toUpperCase",
+        expected: "string",
+      });
     }
     return val.toUpperCase();
   },
@@ -52,9 +84,12 @@ export const mxt = {
   /**
    * Capitaliza primera letra (resto en minúsculas)
    */
-  capitalize: (val: string): string => {
+  capitalize: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("capitalize expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "capitalize",
+        expected: "string",
+      });
     }
     if (val.length === 0) return val;
     return val.charAt(0).toUpperCase() + val.slice(1).toLowerCase();
@@ -63,9 +98,12 @@ export const mxt = {
   /**
    * Capitaliza primera letra de cada palabra
    */
-  titleCase: (val: string): string => {
+  titleCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("titleCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "titleCase",
+        expected: "string",
+      });
     }
     return val.replace(/\b\w/g, (char) => char.toUpperCase());
   },
@@ -73,9 +111,12 @@ export const mxt = {
   /**
    * Convierte a camelCase
    */
-  camelCase: (val: string): string => {
+  camelCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("camelCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "camelCase",
+        expected: "string",
+      });
     }
     return val
       .toLowerCase()
@@ -85,9 +126,12 @@ export const mxt = {
   /**
    * Convierte a snake_case
    */
-  snakeCase: (val: string): string => {
+  snakeCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("snakeCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "snakeCase",
+        expected: "string",
+      });
     }
     return val
       .replace(/([A-Z])/g, "_$1")
@@ -98,9 +142,12 @@ export const mxt = {
   /**
    * Convierte a kebab-case
    */
-  kebabCase: (val: string): string => {
+  kebabCase: (val: string, _src?: unknown, ctx?: MapperxContext): string => {
     if (typeof val !== "string") {
-      throw new TransformError("kebabCase expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "kebabCase",
+        expected: "string",
+      });
     }
     return val
       .replace(/([A-Z])/g, "-$1")
@@ -112,9 +159,12 @@ export const mxt = {
    * Divide string en array
    */
   split: (separator: string): MapperxTransform<string, string[]> => {
-    return (val: string): string[] => {
+    return (val: string, _src?: unknown, ctx?: MapperxContext): string[] => {
       if (typeof val !== "string") {
-        throw new TransformError("split expects a string", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "split",
+          expected: "string",
+        });
       }
       return val.split(separator);
     };
@@ -127,9 +177,12 @@ export const mxt = {
     searchValue: string | RegExp,
     replaceValue: string
   ): MapperxTransform<string, string> => {
-    return (val: string): string => {
+    return (val: string, _src?: unknown, ctx?: MapperxContext): string => {
       if (typeof val !== "string") {
-        throw new TransformError("replace expects a string", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "replace",
+          expected: "string",
+        });
       }
       return val.replace(searchValue, replaceValue);
     };
@@ -142,9 +195,12 @@ export const mxt = {
     maxLength: number,
     suffix: string = "..."
   ): MapperxTransform<string, string> => {
-    return (val: string): string => {
+    return (val: string, _src?: unknown, ctx?: MapperxContext): string => {
       if (typeof val !== "string") {
-        throw new TransformError("truncate expects a string", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "truncate",
+          expected: "string",
+        });
       }
       if (val.length <= maxLength) return val;
       return val.slice(0, maxLength - suffix.length) + suffix;
@@ -158,9 +214,12 @@ export const mxt = {
     targetLength: number,
     padString: string = " "
   ): MapperxTransform<string, string> => {
-    return (val: string): string => {
+    return (val: string, _src?: unknown, ctx?: MapperxContext): string => {
       if (typeof val !== "string") {
-        throw new TransformError("padStart expects a string", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "padStart",
+          expected: "string",
+        });
       }
       return val.padStart(targetLength, padString);
     };
@@ -173,9 +232,12 @@ export const mxt = {
     targetLength: number,
     padString: string = " "
   ): MapperxTransform<string, string> => {
-    return (val: string): string => {
+    return (val: string, _src?: unknown, ctx?: MapperxContext): string => {
       if (typeof val !== "string") {
-        throw new TransformError("padEnd expects a string", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "padEnd",
+          expected: "string",
+        });
       }
       return val.padEnd(targetLength, padString);
     };
@@ -191,9 +253,12 @@ export const mxtNumber = {
    * Redondea número
    */
   round: (decimals: number = 0): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("round expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "round",
+          expected: "number",
+        });
       }
       const multiplier = Math.pow(10, decimals);
       return Math.round(val * multiplier) / multiplier;
@@ -203,9 +268,12 @@ export const mxtNumber = {
   /**
    * Redondea hacia arriba
    */
-  ceil: (val: number): number => {
+  ceil: (val: number, _src?: unknown, ctx?: MapperxContext): number => {
     if (typeof val !== "number") {
-      throw new TransformError("ceil expects a number", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "ceil",
+        expected: "number",
+      });
     }
     return Math.ceil(val);
   },
@@ -213,9 +281,12 @@ export const mxtNumber = {
   /**
    * Redondea hacia abajo
    */
-  floor: (val: number): number => {
+  floor: (val: number, _src?: unknown, ctx?: MapperxContext): number => {
     if (typeof val !== "number") {
-      throw new TransformError("floor expects a number", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "floor",
+        expected: "number",
+      });
     }
     return Math.floor(val);
   },
@@ -223,9 +294,12 @@ export const mxtNumber = {
   /**
    * Valor absoluto
    */
-  abs: (val: number): number => {
+  abs: (val: number, _src?: unknown, ctx?: MapperxContext): number => {
     if (typeof val !== "number") {
-      throw new TransformError("abs expects a number", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "abs",
+        expected: "number",
+      });
     }
     return Math.abs(val);
   },
@@ -234,9 +308,12 @@ export const mxtNumber = {
    * Clamp (limita valor a un rango)
    */
   clamp: (min: number, max: number): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("clamp expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "clamp",
+          expected: "number",
+        });
       }
       return Math.min(Math.max(val, min), max);
     };
@@ -246,9 +323,12 @@ export const mxtNumber = {
    * Suma un valor
    */
   add: (amount: number): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("add expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "add",
+          expected: "number",
+        });
       }
       return val + amount;
     };
@@ -258,9 +338,12 @@ export const mxtNumber = {
    * Resta un valor
    */
   subtract: (amount: number): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("subtract expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "subtract",
+          expected: "number",
+        });
       }
       return val - amount;
     };
@@ -270,9 +353,12 @@ export const mxtNumber = {
    * Multiplica por un valor
    */
   multiply: (factor: number): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("multiply expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "multiply",
+          expected: "number",
+        });
       }
       return val * factor;
     };
@@ -282,12 +368,15 @@ export const mxtNumber = {
    * Divide por un valor
    */
   divide: (divisor: number): MapperxTransform<number, number> => {
-    return (val: number): number => {
+    return (val: number, _src?: unknown, ctx?: MapperxContext): number => {
       if (typeof val !== "number") {
-        throw new TransformError("divide expects a number", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "divide",
+          expected: "number",
+        });
       }
       if (divisor === 0) {
-        throw new TransformError("Cannot divide by zero", val);
+        throw transformError("transform.divideByZero", val, ctx);
       }
       return val / divisor;
     };
@@ -303,9 +392,12 @@ export const mxtArray = {
    * Une elementos de array en string
    */
   join: (separator: string = ","): MapperxTransform<any[], string> => {
-    return (val: any[]): string => {
+    return (val: any[], _src?: unknown, ctx?: MapperxContext): string => {
       if (!Array.isArray(val)) {
-        throw new TransformError("join expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "join",
+          expected: "array",
+        });
       }
       return val.join(separator);
     };
@@ -317,9 +409,12 @@ export const mxtArray = {
   filter: <T>(
     predicate: (item: T, index: number) => boolean
   ): MapperxTransform<T[], T[]> => {
-    return (val: T[]): T[] => {
+    return (val: T[], _src?: unknown, ctx?: MapperxContext): T[] => {
       if (!Array.isArray(val)) {
-        throw new TransformError("filter expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "filter",
+          expected: "array",
+        });
       }
       return val.filter(predicate);
     };
@@ -331,9 +426,12 @@ export const mxtArray = {
   map: <T, U>(
     mapper: (item: T, index: number) => U
   ): MapperxTransform<T[], U[]> => {
-    return (val: T[]): U[] => {
+    return (val: T[], _src?: unknown, ctx?: MapperxContext): U[] => {
       if (!Array.isArray(val)) {
-        throw new TransformError("map expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "map",
+          expected: "array",
+        });
       }
       return val.map(mapper);
     };
@@ -342,9 +440,12 @@ export const mxtArray = {
   /**
    * Obtiene el primer elemento
    */
-  first: <T>(val: T[]): T | undefined => {
+  first: <T>(val: T[], _src?: unknown, ctx?: MapperxContext): T | undefined => {
     if (!Array.isArray(val)) {
-      throw new TransformError("first expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "first",
+        expected: "array",
+      });
     }
     return val[0];
   },
@@ -352,9 +453,12 @@ export const mxtArray = {
   /**
    * Obtiene el último elemento
    */
-  last: <T>(val: T[]): T | undefined => {
+  last: <T>(val: T[], _src?: unknown, ctx?: MapperxContext): T | undefined => {
     if (!Array.isArray(val)) {
-      throw new TransformError("last expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "last",
+        expected: "array",
+      });
     }
     return val[val.length - 1];
   },
@@ -365,9 +469,12 @@ export const mxtArray = {
   find: <T>(
     predicate: (item: T, index: number) => boolean
   ): MapperxTransform<T[], T | undefined> => {
-    return (val: T[]): T | undefined => {
+    return (val: T[], _src?: unknown, ctx?: MapperxContext): T | undefined => {
       if (!Array.isArray(val)) {
-        throw new TransformError("find expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "find",
+          expected: "array",
+        });
       }
       return val.find(predicate);
     };
@@ -377,9 +484,12 @@ export const mxtArray = {
    * Toma los primeros N elementos
    */
   take: (n: number): MapperxTransform<any[], any[]> => {
-    return (val: any[]): any[] => {
+    return (val: any[], _src?: unknown, ctx?: MapperxContext): any[] => {
       if (!Array.isArray(val)) {
-        throw new TransformError("take expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "take",
+          expected: "array",
+        });
       }
       return val.slice(0, n);
     };
@@ -389,9 +499,12 @@ export const mxtArray = {
    * Omite los primeros N elementos
    */
   skip: (n: number): MapperxTransform<any[], any[]> => {
-    return (val: any[]): any[] => {
+    return (val: any[], _src?: unknown, ctx?: MapperxContext): any[] => {
       if (!Array.isArray(val)) {
-        throw new TransformError("skip expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "skip",
+          expected: "array",
+        });
       }
       return val.slice(n);
     };
@@ -400,9 +513,12 @@ export const mxtArray = {
   /**
    * Aplana un array (un nivel)
    */
-  flatten: <T>(val: T[][]): T[] => {
+  flatten: <T>(val: T[][], _src?: unknown, ctx?: MapperxContext): T[] => {
     if (!Array.isArray(val)) {
-      throw new TransformError("flatten expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "flatten",
+        expected: "array",
+      });
     }
     return val.flat();
   },
@@ -410,9 +526,12 @@ export const mxtArray = {
   /**
    * Aplana un array recursivamente
    */
-  flattenDeep: (val: any[]): any[] => {
+  flattenDeep: (val: any[], _src?: unknown, ctx?: MapperxContext): any[] => {
     if (!Array.isArray(val)) {
-      throw new TransformError("flattenDeep expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "flattenDeep",
+        expected: "array",
+      });
     }
     return val.flat(Infinity);
   },
@@ -420,9 +539,12 @@ export const mxtArray = {
   /**
    * Elimina duplicados
    */
-  unique: <T>(val: T[]): T[] => {
+  unique: <T>(val: T[], _src?: unknown, ctx?: MapperxContext): T[] => {
     if (!Array.isArray(val)) {
-      throw new TransformError("unique expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "unique",
+        expected: "array",
+      });
     }
     return [...new Set(val)];
   },
@@ -431,9 +553,12 @@ export const mxtArray = {
    * Ordena el array
    */
   sort: <T>(compareFn?: (a: T, b: T) => number): MapperxTransform<T[], T[]> => {
-    return (val: T[]): T[] => {
+    return (val: T[], _src?: unknown, ctx?: MapperxContext): T[] => {
       if (!Array.isArray(val)) {
-        throw new TransformError("sort expects an array", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "sort",
+          expected: "array",
+        });
       }
       return [...val].sort(compareFn);
     };
@@ -442,9 +567,12 @@ export const mxtArray = {
   /**
    * Invierte el array
    */
-  reverse: <T>(val: T[]): T[] => {
+  reverse: <T>(val: T[], _src?: unknown, ctx?: MapperxContext): T[] => {
     if (!Array.isArray(val)) {
-      throw new TransformError("reverse expects an array", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "reverse",
+        expected: "array",
+      });
     }
     return [...val].reverse();
   },
@@ -462,9 +590,12 @@ export const mxtDate = {
     locale: string = "en-US",
     options: Intl.DateTimeFormatOptions = {}
   ): MapperxTransform<Date, string> => {
-    return (val: Date): string => {
+    return (val: Date, _src?: unknown, ctx?: MapperxContext): string => {
       if (!(val instanceof Date)) {
-        throw new TransformError("format expects a Date", val);
+        throw transformError("transform.type", val, ctx, {
+          name: "format",
+          expected: "Date",
+        });
       }
       return new Intl.DateTimeFormat(locale, options).format(val);
     };
@@ -473,9 +604,12 @@ export const mxtDate = {
   /**
    * Convierte a ISO string
    */
-  toISO: (val: Date): string => {
+  toISO: (val: Date, _src?: unknown, ctx?: MapperxContext): string => {
     if (!(val instanceof Date)) {
-      throw new TransformError("toISO expects a Date", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "toISO",
+        expected: "Date",
+      });
     }
     return val.toISOString();
   },
@@ -483,9 +617,12 @@ export const mxtDate = {
   /**
    * Obtiene timestamp (milisegundos)
    */
-  toTimestamp: (val: Date): number => {
+  toTimestamp: (val: Date, _src?: unknown, ctx?: MapperxContext): number => {
     if (!(val instanceof Date)) {
-      throw new TransformError("toTimestamp expects a Date", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "toTimestamp",
+        expected: "Date",
+      });
     }
     return val.getTime();
   },
@@ -493,9 +630,12 @@ export const mxtDate = {
   /**
    * Obtiene Unix timestamp (segundos)
    */
-  toUnix: (val: Date): number => {
+  toUnix: (val: Date, _src?: unknown, ctx?: MapperxContext): number => {
     if (!(val instanceof Date)) {
-      throw new TransformError("toUnix expects a Date", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "toUnix",
+        expected: "Date",
+      });
     }
     return Math.floor(val.getTime() / 1000);
   },
@@ -509,25 +649,32 @@ export const mxtGeneral = {
   /**
    * Convierte a JSON string
    */
-  stringify: (val: any): string => {
+  stringify: (val: any, _src?: unknown, ctx?: MapperxContext): string => {
     try {
       return JSON.stringify(val);
     } catch (e) {
-      throw new TransformError("Cannot stringify value", val);
+      throw transformError("transform.stringify", val, ctx);
     }
   },
 
   /**
    * Parsea JSON string
    */
-  parseJson: <T = any>(val: string): T => {
+  parseJson: <T = any>(
+    val: string,
+    _src?: unknown,
+    ctx?: MapperxContext
+  ): T => {
     if (typeof val !== "string") {
-      throw new TransformError("parseJson expects a string", val);
+      throw transformError("transform.type", val, ctx, {
+        name: "parseJson",
+        expected: "string",
+      });
     }
     try {
       return JSON.parse(val) as T;
     } catch (e) {
-      throw new TransformError(`Invalid JSON: ${val}`, val);
+      throw transformError("transform.json", val, ctx, { received: val });
     }
   },
 
@@ -544,12 +691,30 @@ export const mxtGeneral = {
 
   /**
    * Composición de transformaciones (pipe)
+   * Cada paso se llama con la firma de transformación `(val, src, ctx)`:
+   * recibe también el source y el contexto del campo (así los mensajes
+   * localizados de options.messages llegan a todos)
+   *
+   * Los validadores usan `(val, ctx)`: pasados tal cual recibirían el source
+   * como contexto. Se adaptan con una arrow function (o se usa mxs.pipe)
+   *
+   * @example
+   * ```typescript
+   * transform: mxtGeneral.pipe(
+   *   mxt.trim,
+   *   (v, _src, ctx) => mxs.number(v, ctx),
+   *   mxtNumber.round(2)
+   * )
+   * ```
    */
   pipe: <T>(
-    ...transforms: Array<(val: any) => any>
+    ...transforms: Array<MapperxTransform<any, any>>
   ): MapperxTransform<T, any> => {
-    return (val: T): any => {
-      return transforms.reduce((acc, transform) => transform(acc), val);
+    return (val: T, src?: any, ctx?: MapperxContext): any => {
+      return transforms.reduce(
+        (acc, transform) => transform(acc, src, ctx),
+        val
+      );
     };
   },
 };
@@ -22,6 +22,32 @@ type IsArray<T> = T extends readonly any[] ? true : false;
  */
 type ArrayElement<T> = T extends readonly (infer U)[] ? U : never;
 
+/**
+ * Profundidad máxima de navegación de DeepKeys: 7 niveles ("a.b.c.d.e.f.g")
+ * (evita recursión infinita en tipos recursivos, ej. árboles)
+ * Para paths más profundos se usa un schema anidado (`schema`), que vuelve
+ * a contar desde su propio Api
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Paths de un campo array: índices, wildcard y paths dentro del elemento
+ * - `${K}[${number}]` → "contacts[0]", "contacts[-1]"
+ * - `${K}.*` / `${K}[*]` → recolecta todos los elementos
+ */
+type ArrayKeys<K extends string, E, D extends number> =
+  | `${K}[${number}]`
+  | `${K}.*`
+  | `${K}[*]`
+  | (E extends NonNavigable
+      ? never
+      : E extends readonly any[]
+      ? never
+      :
+          | `${K}[${number}].${DeepKeys<E, D>}`
+          | `${K}.*.${DeepKeys<E, D>}`
+          | `${K}[*].${DeepKeys<E, D>}`);
+
 /**
  * CORRECCIÓN CRÍTICA: DeepKeys mejorado con mejor manejo de arrays y objetos
  *
@@ -31,16 +57,21 @@ type ArrayElement<T> = T extends readonly (infer U)[] ? U : never;
  * - { a: string } → "a"
  * - { a: { b: string } } → "a" | "a.b"
  * - { user: { name: string; age: number } } → "user" | "user.name" | "user.age"
+ * - { items: { sku: string }[] } → "items" | "items[0]" | "items.*" | "items.*.sku" | ...
  */
-export type DeepKeys<T> = T extends NonNavigable
+export type DeepKeys<T, D extends number = 6> = [D] extends [never]
+  ? never // Profundidad máxima alcanzada
+  : T extends NonNavigable
   ? never // No navegar tipos primitivos, Date, etc.
   : T extends readonly any[]
-  ? never // No navegar arrays directamente (usa el elemento del array si es necesario)
+  ? never // Los arrays se navegan desde su key (ver ArrayKeys)
   : {
       [K in keyof T & string]: T[K] extends NonNavigable
         ? K // Si el valor es primitivo, retornar solo la key
+        : T[K] extends readonly (infer E)[]
+        ? K | ArrayKeys<K, E, PrevDepth[D]> // Array: índices y wildcards
         : T[K] extends object
-        ? K | `${K}.${DeepKeys<T[K]>}` // Si es objeto, recursión
+        ? K | `${K}.${DeepKeys<T[K], PrevDepth[D]>}` // Si es objeto, recursión
         : K;
     }[keyof T & string];
 
@@ -50,9 +81,40 @@ export type DeepKeys<T> = T extends NonNavigable
  * Path<T> representa cualquier ruta válida en el objeto T:
  * - Keys de nivel superior: keyof T
  * - Rutas anidadas usando dot notation: DeepKeys<T>
+ * - Índices y wildcards en arrays: "items[0].sku", "items[-1]", "items.*.sku"
  */
 export type Path<T> = keyof T | DeepKeys<T>;
 
+/**
+ * Normaliza los corchetes como segmentos: "a[0].b" → "a.[0].b"
+ */
+type NormalizePath<P extends string> = P extends `${infer A}[${infer B}`
+  ? `${A}.[${NormalizePath<B>}`
+  : P;
+
+/**
+ * Resuelve un segmento del path (Rest = null si es el último)
+ */
+type PathStep<T, S extends string, Rest> = S extends "*" | "[*]"
+  ? T extends readonly (infer E)[]
+    ? Array<Rest extends string ? ResolvePath<E, Rest> : E>
+    : never
+  : S extends `[${string}]`
+  ? T extends readonly (infer E)[]
+    ? Rest extends string
+      ? ResolvePath<E, Rest>
+      : E
+    : never
+  : S extends keyof T
+  ? Rest extends string
+    ? ResolvePath<T[S], Rest>
+    : T[S]
+  : never;
+
+type ResolvePath<T, P extends string> = P extends `${infer S}.${infer Rest}`
+  ? PathStep<T, S, Rest>
+  : PathStep<T, P, null>;
+
 /**
  * NUEVO: Obtiene el tipo en una ruta específica
  *
@@ -61,16 +123,12 @@ export type Path<T> = keyof T | DeepKeys<T>;
  * Ejemplos:
  * - PathValue<{ a: { b: string } }, "a.b"> → string
  * - PathValue<{ user: { name: string } }, "user.name"> → string
+ * - PathValue<{ items: { sku: string }[] }, "items[0].sku"> → string
+ * - PathValue<{ items: { sku: string }[] }, "items.*.sku"> → string[]
  */
 export type PathValue<T, P extends string> = P extends keyof T
   ? T[P]
-  : P extends `${infer K}.${infer Rest}`
-  ? K extends keyof T
-    ? Rest extends string
-      ? PathValue<T[K], Rest>
-      : never
-    : never
-  : never;
+  : ResolvePath<T, NormalizePath<P>>;
 
 /**
  * NUEVO: Verifica si un path es válido para un tipo dado
@@ -115,6 +173,16 @@ export type PartialBy<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 export type RequiredBy<T, K extends keyof T> = Omit<T, K> &
   Required<Pick<T, K>>;
 
+/**
+ * Partial recursivo: objetos anidados y elementos de arrays también opcionales
+ * (Date, funciones y primitivos se mantienen)
+ */
+export type DeepPartial<T> = T extends NonNavigable
+  ? T
+  : T extends ReadonlyArray<infer E>
+  ? Array<DeepPartial<E>>
+  : { [K in keyof T]?: DeepPartial<T[K]> };
+
 // ============================================================================
 // TESTS DE TIPOS (Solo para verificación, no se exportan)
 // ============================================================================
@@ -166,7 +234,22 @@ type TestPath1 = PathValue<TestObj1, "b.d.e">;
 type TestPath2 = PathValue<TestObj3, "user.name">;
 // Debería ser: string
 
-// Test 5: KeysOfType
+// Test 5: Paths con índices y wildcards
+type TestObj4 = {
+  contacts: { email: string }[];
+  tags: string[];
+};
+
+type Test4 = DeepKeys<TestObj4>;
+// Incluye: "contacts[0].email" | "contacts.*.email" | "tags[-1]" | "tags.*"
+
+type TestPath3 = PathValue<TestObj4, "contacts[-1].email">;
+// Debería ser: string
+
+type TestPath4 = PathValue<TestObj4, "contacts.*.email">;
+// Debería ser: string[]
+
+// Test 6: KeysOfType
 type TestKeys1 = KeysOfType<TestObj2, string>;
 // Debería ser: "name"
 
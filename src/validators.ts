@@ -2,20 +2,387 @@
 // MAPPERX-TS - VALIDATORS MODULE
 // ============================================================================
 
+import { formatErrorPath } from "./core";
+import type { MapperxContext } from "./core";
+import {
+  formatMapperxMessage,
+  MapperxMessageCatalog,
+  MapperxMessageParams,
+} from "./messages";
+import { TransformError } from "./transforms";
+
 /**
  * Tipo base para todos los validadores
  * Un validador toma un valor desconocido y retorna un valor tipado o lanza un error
+ * Opcionalmente recibe el contexto del campo (ver MapperxContext)
+ */
+export type MapperxValidator<T> = (val: unknown, ctx?: MapperxContext) => T;
+
+/**
+ * Paso de mxs.pipe: recibe la salida del paso anterior (validador o transformación)
+ */
+export type MapperxStep<In, Out> = (val: In, ctx?: MapperxContext) => Out;
+
+/**
+ * Problema concreto de una validación
+ * En validadores compuestos (array, object, record, tuple) hay uno por
+ * elemento/propiedad inválido, con su ruta relativa al valor validado
+ */
+export interface ValidationIssue {
+  path: Array<string | number>; // [] = el propio valor, [2, "price"] = val[2].price
+  code: string; // Código estable: "number.min", "string.email", "custom"...
+  params?: MapperxMessageParams; // Parámetros del mensaje: { min: 10, received: 4 }
+  message: string; // Mensaje legible (en el idioma configurado)
+  expected?: unknown; // Lo que se esperaba (tipo, límite, valores...)
+  received?: unknown; // Valor recibido
+  step?: number; // Paso de mxs.all/mxs.pipe que falló (desde 0)
+  option?: number; // Opción de mxsExt.union que lo produjo (desde 0)
+}
+
+/**
+ * Detalles opcionales de un ValidationError
  */
-export type MapperxValidator<T> = (val: unknown) => T;
+export interface ValidationErrorDetails {
+  code?: string; // Código del problema (por defecto "custom")
+  params?: MapperxMessageParams;
+  expected?: unknown;
+  issues?: ValidationIssue[]; // Problemas de un validador compuesto
+}
 
 /**
  * Error personalizado para validaciones
+ * `issues` siempre tiene al menos un problema: si no se pasan, se crea uno
+ * con el mensaje, el código y el valor del propio error
  */
 export class ValidationError extends Error {
-  constructor(message: string, public value: unknown) {
+  public issues: ValidationIssue[];
+  public code: string;
+  public params: MapperxMessageParams;
+
+  constructor(
+    message: string,
+    public value: unknown,
+    details: ValidationErrorDetails = {}
+  ) {
     super(message);
     this.name = "ValidationError";
+    this.code = details.code ?? "custom";
+    this.params = details.params ?? {};
+    this.issues = details.issues ?? [
+      {
+        path: [],
+        code: this.code,
+        params: details.params,
+        message,
+        expected: details.expected,
+        received: value,
+      },
+    ];
+  }
+}
+
+/**
+ * Problemas de un elemento/propiedad, con la ruta prefijada por su posición
+ * (los errores que no son ValidationError cuentan como "custom")
+ */
+function childIssues(e: unknown, segment: string | number): ValidationIssue[] {
+  if (e instanceof ValidationError) {
+    return e.issues.map((issue) => ({
+      ...issue,
+      path: [segment, ...issue.path],
+    }));
+  }
+
+  const message = e instanceof Error ? e.message : String(e);
+  return [{ path: [segment], code: "custom", message }];
+}
+
+/**
+ * Problemas de cualquier error lanzado por un validador o transformación
+ * (TransformError conserva su código; los demás errores cuentan como "custom")
+ */
+function errorIssues(e: unknown): ValidationIssue[] {
+  if (e instanceof ValidationError) return e.issues;
+
+  if (e instanceof TransformError) {
+    return [
+      {
+        path: [],
+        code: e.code,
+        params: e.params,
+        message: e.message,
+        received: e.value,
+      },
+    ];
+  }
+
+  const message = e instanceof Error ? e.message : String(e);
+  return [{ path: [], code: "custom", message }];
+}
+
+/**
+ * Crea el error de un código con su mensaje en el idioma configurado
+ * (options.messages del mapeo o setMapperxMessages)
+ */
+function invalid(
+  code: string,
+  val: unknown,
+  ctx?: MapperxContext,
+  params: MapperxMessageParams = {},
+  expected?: unknown
+): ValidationError {
+  return new ValidationError(formatMapperxMessage(code, params, ctx), val, {
+    code,
+    params,
+    expected,
+  });
+}
+
+/**
+ * Error de un validador compuesto: el mensaje se deriva de los issues
+ * "Array validation failed:\n  [1]: Expected number, got NaN"
+ */
+function compositeError(
+  code: string,
+  issues: ValidationIssue[],
+  val: unknown,
+  ctx?: MapperxContext
+): ValidationError {
+  const title = formatMapperxMessage(code, {}, ctx);
+  const lines = issues.map(
+    (issue) => `  ${formatErrorPath(issue.path)}: ${issue.message}`
+  );
+  return new ValidationError(`${title}:\n${lines.join("\n")}`, val, {
+    code,
+    issues,
+  });
+}
+
+// ============================================================================
+// COMBINADORES (pasos)
+// ============================================================================
+
+/**
+ * Problemas del paso que falló, marcados con su índice
+ * Si el problema ya trae `step` (combinador anidado) se conserva el más interno
+ */
+function stepIssues(e: unknown, step: number): ValidationIssue[] {
+  return errorIssues(e).map((issue) => ({
+    ...issue,
+    step: issue.step ?? step,
+  }));
+}
+
+/**
+ * Error de un paso: conserva mensaje, código y valor del error original
+ */
+function stepError(e: unknown, step: number): ValidationError {
+  const issues = stepIssues(e, step);
+
+  if (e instanceof ValidationError || e instanceof TransformError) {
+    return new ValidationError(e.message, e.value, {
+      code: e.code,
+      params: e.params,
+      issues,
+    });
   }
+
+  return new ValidationError(issues[0].message, undefined, { issues });
+}
+
+/**
+ * Encadena pasos: cada uno recibe la salida del anterior
+ */
+function pipe<A, B>(
+  v1: MapperxValidator<A>,
+  v2: MapperxStep<A, B>
+): MapperxValidator<B>;
+function pipe<A, B, C>(
+  v1: MapperxValidator<A>,
+  v2: MapperxStep<A, B>,
+  v3: MapperxStep<B, C>
+): MapperxValidator<C>;
+function pipe<A, B, C, D>(
+  v1: MapperxValidator<A>,
+  v2: MapperxStep<A, B>,
+  v3: MapperxStep<B, C>,
+  v4: MapperxStep<C, D>
+): MapperxValidator<D>;
+function pipe<A, B, C, D, E>(
+  v1: MapperxValidator<A>,
+  v2: MapperxStep<A, B>,
+  v3: MapperxStep<B, C>,
+  v4: MapperxStep<C, D>,
+  v5: MapperxStep<D, E>
+): MapperxValidator<E>;
+function pipe<A, B, C, D, E, F>(
+  v1: MapperxValidator<A>,
+  v2: MapperxStep<A, B>,
+  v3: MapperxStep<B, C>,
+  v4: MapperxStep<C, D>,
+  v5: MapperxStep<D, E>,
+  v6: MapperxStep<E, F>
+): MapperxValidator<F>;
+function pipe(...steps: MapperxStep<any, any>[]): MapperxValidator<any> {
+  return (val: unknown, ctx?: MapperxContext) =>
+    steps.reduce((acc, step, index) => {
+      try {
+        return step(acc, ctx);
+      } catch (e) {
+        throw stepError(e, index);
+      }
+    }, val);
+}
+
+/**
+ * Mensaje de mxs.refine: texto fijo o código del catálogo
+ */
+export type MapperxRefineMessage =
+  | string
+  | { code: string; params?: MapperxMessageParams };
+
+/**
+ * Añade una condición extra a la salida de un validador
+ */
+function refine<T, U extends T>(
+  validator: MapperxValidator<T>,
+  predicate: (val: T, ctx?: MapperxContext) => val is U,
+  message?: MapperxRefineMessage
+): MapperxValidator<U>;
+function refine<T>(
+  validator: MapperxValidator<T>,
+  predicate: (val: T, ctx?: MapperxContext) => boolean,
+  message?: MapperxRefineMessage
+): MapperxValidator<T>;
+function refine<T>(
+  validator: MapperxValidator<T>,
+  predicate: (val: T, ctx?: MapperxContext) => boolean,
+  message?: MapperxRefineMessage
+): MapperxValidator<T> {
+  return (val: unknown, ctx?: MapperxContext): T => {
+    const result = validator(val, ctx);
+    if (predicate(result, ctx)) return result;
+
+    if (typeof message === "string") {
+      throw new ValidationError(message, result, {
+        code: "refine.failed",
+        params: { received: result },
+      });
+    }
+    const code = message?.code ?? "refine.failed";
+    throw invalid(code, result, ctx, { received: result, ...message?.params });
+  };
+}
+
+/**
+ * Tipo del último validador de una lista
+ */
+type LastValidated<V extends MapperxValidator<any>[]> = V extends [
+  ...MapperxValidator<any>[],
+  MapperxValidator<infer T>
+]
+  ? T
+  : never;
+
+// ============================================================================
+// BUILDER FLUIDO (tipos)
+// ============================================================================
+
+/**
+ * Validador que sin argumentos crea un builder fluido
+ * - mxs.number(val, ctx) → valida
+ * - mxs.number() → MapperxNumberBuilder
+ */
+export interface MapperxFluentValidator<T, B> {
+  (): B;
+  (val: unknown, ctx?: MapperxContext): T;
+}
+
+/**
+ * Builders por tipo base (permite que los modificadores comunes
+ * conserven el builder concreto)
+ */
+export interface MapperxBuilderKinds<T> {
+  number: MapperxNumberBuilder<T>;
+  string: MapperxStringBuilder<T>;
+}
+
+/**
+ * Valores que el builder deja pasar sin validar (optional/nullable)
+ */
+type Missing<T> = Extract<T, null | undefined>;
+
+/**
+ * Modificadores comunes de un builder
+ * El builder ES un MapperxValidator<T>: se usa directamente en `validate`
+ * Cada modificador retorna un builder nuevo (el original no cambia)
+ */
+export interface MapperxValidatorBuilder<
+  T,
+  K extends keyof MapperxBuilderKinds<T>
+> extends MapperxValidator<T> {
+  /** Acepta null/undefined (→ undefined), como mxs.optional */
+  optional(): MapperxBuilderKinds<T | undefined>[K];
+
+  /** Acepta null */
+  nullable(): MapperxBuilderKinds<T | null>[K];
+
+  /** Valor por defecto si el valor es null/undefined (no se valida) */
+  default(value: NonNullable<T>): MapperxBuilderKinds<NonNullable<T>>[K];
+
+  /** Condición extra sobre el valor ya validado (ver mxs.refine) */
+  refine<U extends NonNullable<T>>(
+    predicate: (val: NonNullable<T>, ctx?: MapperxContext) => val is U,
+    message?: MapperxRefineMessage
+  ): MapperxBuilderKinds<U | Missing<T>>[K];
+  refine(
+    predicate: (val: NonNullable<T>, ctx?: MapperxContext) => boolean,
+    message?: MapperxRefineMessage
+  ): MapperxBuilderKinds<T>[K];
+}
+
+/**
+ * Builder de mxs.number()
+ */
+export interface MapperxNumberBuilder<T = number>
+  extends MapperxValidatorBuilder<T, "number"> {
+  int(): MapperxNumberBuilder<T>; // mxsExt.integer
+  min(value: number): MapperxNumberBuilder<T>; // mxsExt.min
+  max(value: number): MapperxNumberBuilder<T>; // mxsExt.max
+  range(min: number, max: number): MapperxNumberBuilder<T>; // mxsExt.range
+  positive(): MapperxNumberBuilder<T>; // mxsExt.positive
+  negative(): MapperxNumberBuilder<T>; // mxsExt.negative
+}
+
+/**
+ * Builder de mxs.string()
+ */
+export interface MapperxStringBuilder<T = string>
+  extends MapperxValidatorBuilder<T, "string"> {
+  trim(): MapperxStringBuilder<T>;
+  lowercase(): MapperxStringBuilder<T>;
+  uppercase(): MapperxStringBuilder<T>;
+  min(length: number): MapperxStringBuilder<T>; // mxsExt.minLength
+  max(length: number): MapperxStringBuilder<T>; // mxsExt.maxLength
+  nonEmpty(): MapperxStringBuilder<T>; // mxsExt.nonEmpty
+  pattern(regex: RegExp, message?: string): MapperxStringBuilder<T>; // mxsExt.pattern
+  email(): MapperxStringBuilder<T>; // mxs.email
+  url(): MapperxStringBuilder<T>; // mxsExt.url
+  uuid(): MapperxStringBuilder<T>; // mxsExt.uuid
+  oneOf<V extends string>(...values: V[]): MapperxStringBuilder<V | Missing<T>>; // mxs.enum
+}
+
+/**
+ * Une un validador con su builder: sin argumentos retorna el builder
+ */
+function fluent<T, B>(
+  validator: MapperxValidator<T>,
+  builder: () => B
+): MapperxFluentValidator<T, B> {
+  return ((...args: [] | [unknown, MapperxContext?]) =>
+    args.length === 0
+      ? builder()
+      : validator(args[0], args[1])) as MapperxFluentValidator<T, B>;
 }
 
 // ============================================================================
@@ -25,49 +392,60 @@ export class ValidationError extends Error {
 export const mxs = {
   /**
    * Valida y convierte a string
+   * Sin argumentos crea un builder fluido: mxs.string().trim().email()
    * @throws ValidationError si el valor es null/undefined
    */
-  string: (val: unknown): string => {
+  string: fluent((val: unknown, ctx?: MapperxContext): string => {
     if (typeof val === "string") return val;
     if (val == null) {
-      throw new ValidationError("Expected string, got null/undefined", val);
+      throw invalid("string.type", val, ctx, {}, "string");
     }
     return String(val);
-  },
+  }, stringBuilder),
 
   /**
    * Valida y convierte a number
+   * Sin argumentos crea un builder fluido: mxs.number().int().min(0)
    * @throws ValidationError si el valor no puede ser convertido a número válido
    */
-  number: (val: unknown): number => {
+  number: fluent((val: unknown, ctx?: MapperxContext): number => {
     if (typeof val === "number") {
       if (isNaN(val)) {
-        throw new ValidationError("Expected number, got NaN", val);
+        throw invalid("number.type", val, ctx, { received: val }, "number");
       }
       if (!isFinite(val)) {
-        throw new ValidationError("Expected finite number, got Infinity", val);
+        throw invalid(
+          "number.finite",
+          val,
+          ctx,
+          { received: val },
+          "finite number"
+        );
       }
       return val;
     }
 
     const n = Number(val);
     if (isNaN(n)) {
-      throw new ValidationError(`Cannot convert "${val}" to number`, val);
+      throw invalid("number.type", val, ctx, { received: val }, "number");
     }
     if (!isFinite(n)) {
-      throw new ValidationError(
-        `Cannot convert "${val}" to finite number`,
-        val
+      throw invalid(
+        "number.finite",
+        val,
+        ctx,
+        { received: val },
+        "finite number"
       );
     }
     return n;
-  },
+  }, numberBuilder),
 
   /**
    * Valida y convierte a boolean
    * @throws ValidationError si el valor no puede ser convertido a boolean
    */
-  boolean: (val: unknown): boolean => {
+  boolean: (val: unknown, ctx?: MapperxContext): boolean => {
     if (typeof val === "boolean") return val;
 
     // Valores truthy
@@ -76,20 +454,17 @@ export const mxs = {
     // Valores falsy
     if (val === "false" || val === "0" || val === 0) return false;
 
-    throw new ValidationError(
-      `Cannot convert "${val}" to boolean. Expected true/false, 1/0, or "true"/"false"`,
-      val
-    );
+    throw invalid("boolean.type", val, ctx, { received: val }, "boolean");
   },
 
   /**
    * Valida y convierte a Date
    * @throws ValidationError si el valor no es una fecha válida
    */
-  date: (val: unknown): Date => {
+  date: (val: unknown, ctx?: MapperxContext): Date => {
     if (val instanceof Date) {
       if (isNaN(val.getTime())) {
-        throw new ValidationError("Invalid Date object", val);
+        throw invalid("date.invalid", val, ctx, { received: val }, "date");
       }
       return val;
     }
@@ -97,7 +472,7 @@ export const mxs = {
     // Intentar crear fecha desde el valor
     const d = new Date(val as string | number);
     if (isNaN(d.getTime())) {
-      throw new ValidationError(`Invalid date: "${val}"`, val);
+      throw invalid("date.invalid", val, ctx, { received: val }, "date");
     }
     return d;
   },
@@ -107,30 +482,24 @@ export const mxs = {
    * @param itemValidator Validador para cada elemento del array
    */
   array: <T>(itemValidator: MapperxValidator<T>): MapperxValidator<T[]> => {
-    return (val: unknown): T[] => {
+    return (val: unknown, ctx?: MapperxContext): T[] => {
       if (!Array.isArray(val)) {
-        throw new ValidationError("Expected array", val);
+        throw invalid("array.type", val, ctx, {}, "array");
       }
 
-      const errors: Array<{ index: number; error: Error }> = [];
+      const issues: ValidationIssue[] = [];
       const result: T[] = [];
 
       for (let i = 0; i < val.length; i++) {
         try {
-          result.push(itemValidator(val[i]));
+          result.push(itemValidator(val[i], ctx));
         } catch (e) {
-          errors.push({
-            index: i,
-            error: e instanceof Error ? e : new Error(String(e)),
-          });
+          issues.push(...childIssues(e, i));
         }
       }
 
-      if (errors.length > 0) {
-        const errorMsg = errors
-          .map((e) => `  [${e.index}]: ${e.error.message}`)
-          .join("\n");
-        throw new ValidationError(`Array validation failed:\n${errorMsg}`, val);
+      if (issues.length > 0) {
+        throw compositeError("array.items", issues, val, ctx);
       }
 
       return result;
@@ -143,9 +512,9 @@ export const mxs = {
   optional: <T>(
     validator: MapperxValidator<T>
   ): MapperxValidator<T | undefined> => {
-    return (val: unknown): T | undefined => {
+    return (val: unknown, ctx?: MapperxContext): T | undefined => {
       if (val === undefined || val === null) return undefined;
-      return validator(val);
+      return validator(val, ctx);
     };
   },
 
@@ -153,9 +522,9 @@ export const mxs = {
    * Hace que un validador acepte null
    */
   nullable: <T>(validator: MapperxValidator<T>): MapperxValidator<T | null> => {
-    return (val: unknown): T | null => {
+    return (val: unknown, ctx?: MapperxContext): T | null => {
       if (val === null) return null;
-      return validator(val);
+      return validator(val, ctx);
     };
   },
 
@@ -163,31 +532,195 @@ export const mxs = {
    * Valida que el valor sea uno de los valores del enum
    */
   enum: <T extends string | number>(...values: T[]): MapperxValidator<T> => {
-    return (val: unknown): T => {
+    return (val: unknown, ctx?: MapperxContext): T => {
       if (values.includes(val as T)) return val as T;
-      throw new ValidationError(
-        `Expected one of [${values.join(", ")}], got "${val}"`,
-        val
-      );
+      throw invalid("enum.value", val, ctx, { values, received: val }, values);
     };
   },
 
   /**
    * Valida formato de email
    */
-  email: (val: unknown): string => {
+  email: (val: unknown, ctx?: MapperxContext): string => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    const str = mxs.string(val);
+    const str = mxs.string(val, ctx);
     if (!emailRegex.test(str)) {
-      throw new ValidationError(`Invalid email format: "${val}"`, val);
+      throw invalid("string.email", val, ctx, { received: val }, "email");
     }
     return str;
   },
 
+  /**
+   * Combina validadores (AND lógico): todos reciben el mismo valor y se
+   * reportan TODOS los que fallan, cada issue con el `step` que lo produjo
+   * Retorna el resultado del último validador
+   *
+   * @example
+   * ```typescript
+   * const quantity = mxs.all(mxsExt.integer, mxsExt.positive, mxsExt.max(99));
+   * ```
+   */
+  all: <V extends [MapperxValidator<any>, ...MapperxValidator<any>[]]>(
+    ...validators: V
+  ): MapperxValidator<LastValidated<V>> => {
+    return (val: unknown, ctx?: MapperxContext) => {
+      const errors: Array<{ error: unknown; step: number }> = [];
+      let result: any;
+
+      validators.forEach((validator, step) => {
+        try {
+          result = validator(val, ctx);
+        } catch (error) {
+          errors.push({ error, step });
+        }
+      });
+
+      if (errors.length === 1) {
+        throw stepError(errors[0].error, errors[0].step);
+      }
+
+      if (errors.length > 1) {
+        const issues = errors.flatMap(({ error, step }) =>
+          stepIssues(error, step)
+        );
+        const title = formatMapperxMessage(
+          "all.failed",
+          { count: errors.length },
+          ctx
+        );
+        const lines = issues.map((issue) => {
+          const path = formatErrorPath(issue.path);
+          return `  - ${path ? `${path}: ` : ""}${issue.message}`;
+        });
+        throw new ValidationError(`${title}:\n${lines.join("\n")}`, val, {
+          code: "all.failed",
+          params: { count: errors.length },
+          issues,
+        });
+      }
+
+      return result;
+    };
+  },
+
+  /**
+   * Encadena validadores y transformaciones: cada paso recibe la salida
+   * del anterior y el primero que falla detiene la cadena (issues con `step`)
+   *
+   * @example
+   * ```typescript
+   * const contactEmail = mxs.pipe(
+   *   mxs.string,
+   *   (s) => s.trim().toLowerCase(),
+   *   mxsExt.nonEmpty,
+   *   mxsExt.maxLength(80),
+   *   mxs.email
+   * );
+   * ```
+   */
+  pipe,
+
+  /**
+   * Añade una condición a la salida de un validador
+   * `message` es un texto fijo o un código del catálogo ({ code, params });
+   * sin él se usa "refine.failed". Con un type guard el tipo se estrecha
+   *
+   * @example
+   * ```typescript
+   * const even = mxs.refine(mxs.number, (n) => n % 2 === 0, "Expected even number");
+   * const sku = mxs.refine(mxs.string, (s) => /^SKU-/.test(s), { code: "order.sku" });
+   * ```
+   */
+  refine,
+
+  /**
+   * Prepara el valor antes de validarlo (trim, parseo, normalización...)
+   * Un error de `fn` se reporta como step 0 y el del validador como step 1
+   *
+   * @example
+   * ```typescript
+   * const tags = mxs.preprocess(
+   *   (val) => (typeof val === "string" ? val.split(",") : val),
+   *   mxs.array(mxs.string)
+   * );
+   * ```
+   */
+  preprocess: <T>(
+    fn: (val: unknown, ctx?: MapperxContext) => unknown,
+    validator: MapperxValidator<T>
+  ): MapperxValidator<T> => pipe(fn, validator),
+
+  /**
+   * Usa un valor por defecto si el valor es null/undefined
+   * (el default no pasa por el validador)
+   */
+  default: <T>(
+    validator: MapperxValidator<T>,
+    value: T
+  ): MapperxValidator<T> => {
+    return (val: unknown, ctx?: MapperxContext): T => {
+      if (val === undefined || val === null) return value;
+      return validator(val, ctx);
+    };
+  },
+
   /**
    * Validador personalizado
+   * Opcionalmente define los mensajes de sus propios códigos por locale
+   * (se lanzan con mxs.fail). Los mensajes pertenecen al validador: no se
+   * registran en el catálogo global, y options.messages del mapeo tiene
+   * prioridad sobre ellos
+   *
+   * @example
+   * ```typescript
+   * const even = mxs.custom(
+   *   (val, ctx) => {
+   *     const n = mxs.number(val, ctx);
+   *     if (n % 2 !== 0) mxs.fail("number.even", val, { received: n }, ctx);
+   *     return n;
+   *   },
+   *   {
+   *     en: { "number.even": "Expected even number, got {received}" },
+   *     es: { "number.even": "Se esperaba un número par, se recibió {received}" },
+   *   }
+   * );
+   * ```
    */
-  custom: <T>(fn: (val: unknown) => T): MapperxValidator<T> => fn,
+  custom: <T>(
+    fn: (val: unknown, ctx?: MapperxContext) => T,
+    messages?: Record<string, MapperxMessageCatalog>
+  ): MapperxValidator<T> => {
+    if (!messages) return fn;
+
+    const ownsCode = (code: string): boolean =>
+      Object.values(messages).some((catalog) => code in catalog);
+
+    return (val: unknown, ctx?: MapperxContext): T => {
+      try {
+        return fn(val, ctx);
+      } catch (e) {
+        // Se vuelve a formatear con los mensajes propios del validador
+        if (!(e instanceof ValidationError) || !ownsCode(e.code)) throw e;
+        throw new ValidationError(
+          formatMapperxMessage(e.code, e.params, ctx, messages),
+          e.value,
+          { code: e.code, params: e.params, expected: e.issues[0]?.expected }
+        );
+      }
+    };
+  },
+
+  /**
+   * Lanza un ValidationError con un código (el mensaje sale del catálogo)
+   */
+  fail: (
+    code: string,
+    val: unknown,
+    params: MapperxMessageParams = {},
+    ctx?: MapperxContext
+  ): never => {
+    throw invalid(code, val, ctx, params);
+  },
 };
 
 // ============================================================================
@@ -198,13 +731,13 @@ export const mxsExt = {
   /**
    * Valida formato de URL
    */
-  url: (val: unknown): string => {
-    const str = mxs.string(val);
+  url: (val: unknown, ctx?: MapperxContext): string => {
+    const str = mxs.string(val, ctx);
     try {
       new URL(str);
       return str;
     } catch {
-      throw new ValidationError(`Invalid URL format: "${val}"`, val);
+      throw invalid("string.url", val, ctx, { received: val }, "url");
     }
   },
 
@@ -212,12 +745,15 @@ export const mxsExt = {
    * Valida número mínimo
    */
   min: (minValue: number): MapperxValidator<number> => {
-    return (val: unknown): number => {
-      const n = mxs.number(val);
+    return (val: unknown, ctx?: MapperxContext): number => {
+      const n = mxs.number(val, ctx);
       if (n < minValue) {
-        throw new ValidationError(
-          `Value ${n} is less than minimum ${minValue}`,
-          val
+        throw invalid(
+          "number.min",
+          val,
+          ctx,
+          { min: minValue, received: n },
+          minValue
         );
       }
       return n;
@@ -228,12 +764,15 @@ export const mxsExt = {
    * Valida número máximo
    */
   max: (maxValue: number): MapperxValidator<number> => {
-    return (val: unknown): number => {
-      const n = mxs.number(val);
+    return (val: unknown, ctx?: MapperxContext): number => {
+      const n = mxs.number(val, ctx);
       if (n > maxValue) {
-        throw new ValidationError(
-          `Value ${n} is greater than maximum ${maxValue}`,
-          val
+        throw invalid(
+          "number.max",
+          val,
+          ctx,
+          { max: maxValue, received: n },
+          maxValue
         );
       }
       return n;
@@ -244,13 +783,13 @@ export const mxsExt = {
    * Valida rango de número
    */
   range: (min: number, max: number): MapperxValidator<number> => {
-    return (val: unknown): number => {
-      const n = mxs.number(val);
+    return (val: unknown, ctx?: MapperxContext): number => {
+      const n = mxs.number(val, ctx);
       if (n < min || n > max) {
-        throw new ValidationError(
-          `Value ${n} is outside range [${min}, ${max}]`,
-          val
-        );
+        throw invalid("number.range", val, ctx, { min, max, received: n }, [
+          min,
+          max,
+        ]);
       }
       return n;
     };
@@ -260,12 +799,15 @@ export const mxsExt = {
    * Valida longitud mínima de string
    */
   minLength: (minLen: number): MapperxValidator<string> => {
-    return (val: unknown): string => {
-      const str = mxs.string(val);
+    return (val: unknown, ctx?: MapperxContext): string => {
+      const str = mxs.string(val, ctx);
       if (str.length < minLen) {
-        throw new ValidationError(
-          `String length ${str.length} is less than minimum ${minLen}`,
-          val
+        throw invalid(
+          "string.minLength",
+          val,
+          ctx,
+          { min: minLen, length: str.length },
+          minLen
         );
       }
       return str;
@@ -276,12 +818,15 @@ export const mxsExt = {
    * Valida longitud máxima de string
    */
   maxLength: (maxLen: number): MapperxValidator<string> => {
-    return (val: unknown): string => {
-      const str = mxs.string(val);
+    return (val: unknown, ctx?: MapperxContext): string => {
+      const str = mxs.string(val, ctx);
       if (str.length > maxLen) {
-        throw new ValidationError(
-          `String length ${str.length} is greater than maximum ${maxLen}`,
-          val
+        throw invalid(
+          "string.maxLength",
+          val,
+          ctx,
+          { max: maxLen, length: str.length },
+          maxLen
         );
       }
       return str;
@@ -290,14 +835,17 @@ export const mxsExt = {
 
   /**
    * Valida patrón regex
+   * `message` fija el texto (no se traduce)
    */
   pattern: (regex: RegExp, message?: string): MapperxValidator<string> => {
-    return (val: unknown): string => {
-      const str = mxs.string(val);
+    return (val: unknown, ctx?: MapperxContext): string => {
+      const str = mxs.string(val, ctx);
       if (!regex.test(str)) {
+        const params = { pattern: regex, received: str };
         throw new ValidationError(
-          message || `String "${str}" does not match pattern ${regex}`,
-          val
+          message ?? formatMapperxMessage("string.pattern", params, ctx),
+          val,
+          { code: "string.pattern", params, expected: regex }
         );
       }
       return str;
@@ -307,12 +855,12 @@ export const mxsExt = {
   /**
    * Valida formato UUID
    */
-  uuid: (val: unknown): string => {
-    const str = mxs.string(val);
+  uuid: (val: unknown, ctx?: MapperxContext): string => {
+    const str = mxs.string(val, ctx);
     const uuidRegex =
       /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(str)) {
-      throw new ValidationError(`Invalid UUID format: "${val}"`, val);
+      throw invalid("string.uuid", val, ctx, { received: val }, "uuid");
     }
     return str;
   },
@@ -320,10 +868,10 @@ export const mxsExt = {
   /**
    * Valida que sea un entero
    */
-  integer: (val: unknown): number => {
-    const n = mxs.number(val);
+  integer: (val: unknown, ctx?: MapperxContext): number => {
+    const n = mxs.number(val, ctx);
     if (!Number.isInteger(n)) {
-      throw new ValidationError(`Expected integer, got ${n}`, val);
+      throw invalid("number.integer", val, ctx, { received: n }, "integer");
     }
     return n;
   },
@@ -331,10 +879,16 @@ export const mxsExt = {
   /**
    * Valida que sea un número positivo
    */
-  positive: (val: unknown): number => {
-    const n = mxs.number(val);
+  positive: (val: unknown, ctx?: MapperxContext): number => {
+    const n = mxs.number(val, ctx);
     if (n <= 0) {
-      throw new ValidationError(`Expected positive number, got ${n}`, val);
+      throw invalid(
+        "number.positive",
+        val,
+        ctx,
+        { received: n },
+        "positive number"
+      );
     }
     return n;
   },
@@ -342,10 +896,16 @@ export const mxsExt = {
   /**
    * Valida que sea un número negativo
    */
-  negative: (val: unknown): number => {
-    const n = mxs.number(val);
+  negative: (val: unknown, ctx?: MapperxContext): number => {
+    const n = mxs.number(val, ctx);
     if (n >= 0) {
-      throw new ValidationError(`Expected negative number, got ${n}`, val);
+      throw invalid(
+        "number.negative",
+        val,
+        ctx,
+        { received: n },
+        "negative number"
+      );
     }
     return n;
   },
@@ -353,10 +913,10 @@ export const mxsExt = {
   /**
    * Valida string no vacío
    */
-  nonEmpty: (val: unknown): string => {
-    const str = mxs.string(val);
+  nonEmpty: (val: unknown, ctx?: MapperxContext): string => {
+    const str = mxs.string(val, ctx);
     if (str.trim().length === 0) {
-      throw new ValidationError("String cannot be empty", val);
+      throw invalid("string.nonEmpty", val, ctx, {}, "non-empty string");
     }
     return str;
   },
@@ -367,29 +927,25 @@ export const mxsExt = {
   object: <T extends Record<string, MapperxValidator<any>>>(
     shape: T
   ): MapperxValidator<{ [K in keyof T]: ReturnType<T[K]> }> => {
-    return (val: unknown) => {
+    return (val: unknown, ctx?: MapperxContext) => {
       if (typeof val !== "object" || val === null) {
-        throw new ValidationError("Expected object", val);
+        throw invalid("object.type", val, ctx, {}, "object");
       }
 
       const obj = val as Record<string, unknown>;
       const result = {} as any;
-      const errors: string[] = [];
+      const issues: ValidationIssue[] = [];
 
       for (const [key, validator] of Object.entries(shape)) {
         try {
-          result[key] = validator(obj[key]);
+          result[key] = validator(obj[key], ctx);
         } catch (e) {
-          const error = e instanceof Error ? e : new Error(String(e));
-          errors.push(`  ${key}: ${error.message}`);
+          issues.push(...childIssues(e, key));
         }
       }
 
-      if (errors.length > 0) {
-        throw new ValidationError(
-          `Object validation failed:\n${errors.join("\n")}`,
-          val
-        );
+      if (issues.length > 0) {
+        throw compositeError("object.properties", issues, val, ctx);
       }
 
       return result;
@@ -402,29 +958,25 @@ export const mxsExt = {
   record: <V>(
     valueValidator: MapperxValidator<V>
   ): MapperxValidator<Record<string, V>> => {
-    return (val: unknown): Record<string, V> => {
+    return (val: unknown, ctx?: MapperxContext): Record<string, V> => {
       if (typeof val !== "object" || val === null || Array.isArray(val)) {
-        throw new ValidationError("Expected record object", val);
+        throw invalid("record.type", val, ctx, {}, "record");
       }
 
       const obj = val as Record<string, unknown>;
       const result: Record<string, V> = {};
-      const errors: string[] = [];
+      const issues: ValidationIssue[] = [];
 
       for (const [key, value] of Object.entries(obj)) {
         try {
-          result[key] = valueValidator(value);
+          result[key] = valueValidator(value, ctx);
         } catch (e) {
-          const error = e instanceof Error ? e : new Error(String(e));
-          errors.push(`  ${key}: ${error.message}`);
+          issues.push(...childIssues(e, key));
         }
       }
 
-      if (errors.length > 0) {
-        throw new ValidationError(
-          `Record validation failed:\n${errors.join("\n")}`,
-          val
-        );
+      if (issues.length > 0) {
+        throw compositeError("record.values", issues, val, ctx);
       }
 
       return result;
@@ -437,35 +989,34 @@ export const mxsExt = {
   tuple: <T extends MapperxValidator<any>[]>(
     ...validators: T
   ): MapperxValidator<{ [K in keyof T]: ReturnType<T[K]> }> => {
-    return (val: unknown) => {
+    return (val: unknown, ctx?: MapperxContext) => {
       if (!Array.isArray(val)) {
-        throw new ValidationError("Expected array for tuple", val);
+        throw invalid("tuple.type", val, ctx, {}, "array");
       }
 
       if (val.length !== validators.length) {
-        throw new ValidationError(
-          `Expected tuple of length ${validators.length}, got ${val.length}`,
-          val
+        throw invalid(
+          "tuple.length",
+          val,
+          ctx,
+          { expected: validators.length, length: val.length },
+          validators.length
         );
       }
 
       const result: any[] = [];
-      const errors: string[] = [];
+      const issues: ValidationIssue[] = [];
 
       validators.forEach((validator, index) => {
         try {
-          result.push(validator(val[index]));
+          result.push(validator(val[index], ctx));
         } catch (e) {
-          const error = e instanceof Error ? e : new Error(String(e));
-          errors.push(`  [${index}]: ${error.message}`);
+          issues.push(...childIssues(e, index));
         }
       });
 
-      if (errors.length > 0) {
-        throw new ValidationError(
-          `Tuple validation failed:\n${errors.join("\n")}`,
-          val
-        );
+      if (issues.length > 0) {
+        throw compositeError("tuple.items", issues, val, ctx);
       }
 
       return result as any;
@@ -478,22 +1029,41 @@ export const mxsExt = {
   union: <T extends MapperxValidator<any>[]>(
     ...validators: T
   ): MapperxValidator<ReturnType<T[number]>> => {
-    return (val: unknown) => {
-      const errors: Error[] = [];
+    return (val: unknown, ctx?: MapperxContext) => {
+      const issues: ValidationIssue[] = [];
 
-      for (const validator of validators) {
+      for (const [option, validator] of validators.entries()) {
         try {
-          return validator(val);
+          return validator(val, ctx);
         } catch (e) {
-          errors.push(e instanceof Error ? e : new Error(String(e)));
+          issues.push(...errorIssues(e).map((issue) => ({ ...issue, option })));
         }
       }
 
+      // Un issue por problema de cada opción, marcado con su índice
+      const errors = issues.map((issue) => {
+        const path = formatErrorPath(issue.path);
+        const line = formatMapperxMessage(
+          "union.option",
+          {
+            option: issue.option! + 1,
+            message: `${path ? `${path}: ` : ""}${issue.message}`,
+          },
+          ctx
+        );
+        return `  ${line}`;
+      });
+      const params = { count: validators.length, errors: errors.join("\n") };
+
       throw new ValidationError(
-        `Value does not match any of the union types. Errors:\n${errors
-          .map((e, i) => `  Option ${i + 1}: ${e.message}`)
-          .join("\n")}`,
-        val
+        formatMapperxMessage("union.noMatch", params, ctx),
+        val,
+        {
+          code: "union.noMatch",
+          params,
+          expected: `one of ${validators.length} types`,
+          issues,
+        }
       );
     };
   },
@@ -504,14 +1074,102 @@ export const mxsExt = {
   literal: <T extends string | number | boolean>(
     literalValue: T
   ): MapperxValidator<T> => {
-    return (val: unknown): T => {
+    return (val: unknown, ctx?: MapperxContext): T => {
       if (val !== literalValue) {
-        throw new ValidationError(
-          `Expected literal value ${literalValue}, got ${val}`,
-          val
+        throw invalid(
+          "literal.value",
+          val,
+          ctx,
+          { expected: literalValue, received: val },
+          literalValue
         );
       }
       return literalValue;
     };
   },
 };
+
+// ============================================================================
+// BUILDER FLUIDO (implementación)
+// ============================================================================
+
+/**
+ * Estado de un builder: pasos a aplicar y qué hacer con null/undefined
+ */
+interface BuilderState {
+  steps: MapperxStep<any, any>[]; // Validador base + modificadores, en orden
+  onUndefined?: { value: unknown };
+  onNull?: { value: unknown };
+}
+
+/**
+ * Crea un builder: un validador (los pasos en orden) con los modificadores
+ * comunes y los de su tipo base
+ */
+function createBuilder(
+  state: BuilderState,
+  modifiers: (
+    check: (step: MapperxStep<any, any>) => any
+  ) => Record<string, (...args: any[]) => any>
+): any {
+  const validator = (val: unknown, ctx?: MapperxContext) => {
+    if (val === undefined && state.onUndefined) return state.onUndefined.value;
+    if (val === null && state.onNull) return state.onNull.value;
+    return state.steps.reduce((acc, step) => step(acc, ctx), val);
+  };
+
+  const next = (patch: Partial<BuilderState>) =>
+    createBuilder({ ...state, ...patch }, modifiers);
+  const check = (step: MapperxStep<any, any>) =>
+    next({ steps: [...state.steps, step] });
+
+  return Object.assign(validator, {
+    optional: () =>
+      next({
+        onUndefined: { value: undefined },
+        onNull: state.onNull ?? { value: undefined },
+      }),
+    nullable: () => next({ onNull: { value: null } }),
+    default: (value: unknown) =>
+      next({ onUndefined: { value }, onNull: { value } }),
+    refine: (
+      predicate: (val: any, ctx?: MapperxContext) => boolean,
+      message?: MapperxRefineMessage
+    ) => check(refine((val: unknown) => val, predicate, message)),
+    ...modifiers(check),
+  });
+}
+
+/**
+ * Builder de mxs.number()
+ */
+function numberBuilder(): MapperxNumberBuilder {
+  return createBuilder({ steps: [mxs.number] }, (check) => ({
+    int: () => check(mxsExt.integer),
+    min: (value: number) => check(mxsExt.min(value)),
+    max: (value: number) => check(mxsExt.max(value)),
+    range: (min: number, max: number) => check(mxsExt.range(min, max)),
+    positive: () => check(mxsExt.positive),
+    negative: () => check(mxsExt.negative),
+  }));
+}
+
+/**
+ * Builder de mxs.string()
+ */
+function stringBuilder(): MapperxStringBuilder {
+  return createBuilder({ steps: [mxs.string] }, (check) => ({
+    trim: () => check((s: string) => s.trim()),
+    lowercase: () => check((s: string) => s.toLowerCase()),
+    uppercase: () => check((s: string) => s.toUpperCase()),
+    min: (length: number) => check(mxsExt.minLength(length)),
+    max: (length: number) => check(mxsExt.maxLength(length)),
+    nonEmpty: () => check(mxsExt.nonEmpty),
+    pattern: (regex: RegExp, message?: string) =>
+      check(mxsExt.pattern(regex, message)),
+    email: () => check(mxs.email),
+    url: () => check(mxsExt.url),
+    uuid: () => check(mxsExt.uuid),
+    oneOf: (...values: string[]) => check(mxs.enum(...values)),
+  }));
+}
@@ -0,0 +1,616 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  mapperxAsync,
+  mapperxSafeAsync,
+  mapperxBatchAsync,
+  mxsAsync,
+  MapperxAbortError,
+  MapperxError,
+  MapperxTimeoutError,
+  MapperxRetryError,
+  type AsyncMapperxSchema,
+  type MapperxContext,
+} from "../src";
+
+interface ItemDto {
+  id: number;
+}
+
+interface Item {
+  id: number;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("MapperX batch async concurrency", () => {
+  it("should limit concurrency and preserve input order", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const progress: number[] = [];
+
+    const schema: AsyncMapperxSchema<ItemDto, Item> = {
+      id: {
+        from: "id",
+        validate: async (v) => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await sleep((v as number) % 2 ? 8 : 1);
+          running--;
+          if (v === 3) throw new Error("boom");
+          return v as number;
+        },
+      },
+    };
+
+    const items = [1, 2, 3, 4, 5].map((id) => ({ id }));
+    const result = await mapperxBatchAsync(items, schema, {
+      concurrency: 2,
+      onProgress: (done, total) => progress.push(done / total),
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(result.data).toEqual([{ id: 1 }, { id: 2 }, { id: 4 }, { id: 5 }]);
+    expect(result.errors.map((e) => e.index)).toEqual([2]);
+    expect(progress).toEqual([0.2, 0.4, 0.6, 0.8, 1]);
+  });
+
+  it("should stop scheduling and reject with MapperxAbortError", async () => {
+    const controller = new AbortController();
+    let started = 0;
+
+    const schema: AsyncMapperxSchema<ItemDto, Item> = {
+      id: {
+        from: "id",
+        validate: async (v) => {
+          started++;
+          await sleep(5);
+          return v as number;
+        },
+      },
+    };
+
+    const items = Array.from({ length: 10 }, (_, id) => ({ id }));
+    const pending = mapperxBatchAsync(items, schema, {
+      concurrency: 2,
+      signal: controller.signal,
+      onProgress: (done) => done === 2 && controller.abort(),
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(MapperxAbortError);
+    await sleep(20);
+    expect(started).toBeLessThan(5);
+  });
+
+  it("should reject concurrency limits that are not positive integers", async () => {
+    const schema: AsyncMapperxSchema<ItemDto, Item> = { id: "id" };
+    const items = [{ id: 1 }];
+
+    for (const concurrency of [NaN, 0, -1, 1.5]) {
+      await expect(
+        mapperxBatchAsync(items, schema, { concurrency })
+      ).rejects.toThrow(RangeError);
+    }
+    await expect(
+      mapperxAsync(items[0], schema, { parallelFields: 1.5 })
+    ).rejects.toThrow(RangeError);
+  });
+});
+
+describe("MapperX parallel fields", () => {
+  interface ProfileDto {
+    a: string;
+    b: string;
+    c: string;
+  }
+  interface Profile {
+    a: string;
+    b: string;
+    c: string;
+  }
+
+  let running = 0;
+  let maxRunning = 0;
+
+  const slowUpper = (ms: number) => async (v: unknown) => {
+    maxRunning = Math.max(maxRunning, ++running);
+    await sleep(ms);
+    running--;
+    if (v === "bad") throw new Error("invalid value");
+    return String(v).toUpperCase();
+  };
+
+  const schema: AsyncMapperxSchema<ProfileDto, Profile> = {
+    a: { from: "a", validate: slowUpper(15) },
+    b: { from: "b", validate: slowUpper(1) },
+    c: { from: "c", validate: slowUpper(8) },
+  };
+
+  it("should evaluate fields concurrently with a stable key order", async () => {
+    maxRunning = 0;
+    const result = await mapperxAsync({ a: "x", b: "y", c: "z" }, schema, {
+      parallelFields: true,
+    });
+
+    expect(maxRunning).toBe(3);
+    expect(Object.keys(result)).toEqual(["a", "b", "c"]);
+    expect(result).toEqual({ a: "X", b: "Y", c: "Z" });
+  });
+
+  it("should keep the sequential error semantics", async () => {
+    const dto = { a: "bad", b: "y", c: "bad" };
+
+    await expect(
+      mapperxAsync(dto, schema, { parallelFields: 2 })
+    ).rejects.toThrow('Mapperx mapping error at "a"');
+
+    const safe = await mapperxSafeAsync(dto, schema, { parallelFields: true });
+    expect(safe.errors.map((e) => e.field)).toEqual(["a", "c"]);
+    expect(safe.value).toEqual({ b: "Y" });
+  });
+
+  it("should stop starting fields after the first failure", async () => {
+    const started: string[] = [];
+    const track = (ms: number) => async (v: unknown) => {
+      started.push(String(v));
+      await sleep(ms);
+      if (v === "bad") throw new Error("invalid value");
+      return String(v);
+    };
+    const wide: AsyncMapperxSchema<
+      Record<"a" | "b" | "c" | "d", string>,
+      Record<"a" | "b" | "c" | "d", string>
+    > = {
+      a: { from: "a", validate: track(1) },
+      b: { from: "b", validate: track(10) },
+      c: { from: "c", validate: track(1) },
+      d: { from: "d", validate: track(1) },
+    };
+    const dto = { a: "bad", b: "y", c: "z", d: "w" };
+
+    await expect(
+      mapperxAsync(dto, wide, { parallelFields: 2 })
+    ).rejects.toThrow('Mapperx mapping error at "a"');
+    expect(started).toEqual(["bad", "y"]);
+
+    started.length = 0;
+    const safe = await mapperxSafeAsync(dto, wide, { parallelFields: 2 });
+    expect(started).toHaveLength(4);
+    expect(safe.value).toEqual({ b: "y", c: "z", d: "w" });
+  });
+});
+
+describe("timeouts and cancellation", () => {
+  interface UserDto {
+    id: number;
+  }
+
+  interface User {
+    id: number;
+    profile: string;
+  }
+
+  // Respeta el signal: deja de esperar cuando se cancela
+  const slowLookup =
+    (ms: number, seen: Array<AbortSignal | undefined>) =>
+    async (_v: unknown, ctx?: { signal?: AbortSignal }) => {
+      seen.push(ctx?.signal);
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        ctx?.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(ctx.signal!.reason);
+        });
+      });
+      return "loaded";
+    };
+
+  it("should fail a field that exceeds its timeoutMs", async () => {
+    const seen: Array<AbortSignal | undefined> = [];
+    const schema: AsyncMapperxSchema<UserDto, User> = {
+      id: "id",
+      profile: { from: "id", validate: slowLookup(200, seen), timeoutMs: 10 },
+    };
+
+    const error = await mapperxAsync({ id: 1 }, schema).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MapperxError);
+    expect(error.field).toBe("profile");
+    expect(error.cause).toBeInstanceOf(MapperxTimeoutError);
+    expect(error.message).toContain("Timed out after 10ms");
+    expect(seen[0]?.aborted).toBe(true);
+  });
+
+  it("should time out a computed field even if it ignores the signal", async () => {
+    const schema: AsyncMapperxSchema<UserDto, User> = {
+      id: "id",
+      profile: {
+        computed: () => sleep(200).then(() => "late"),
+        timeoutMs: 10,
+        default: "n/a",
+      },
+    };
+
+    const result = await mapperxAsync({ id: 1 }, schema, { skipInvalid: true });
+    expect(result).toEqual({ id: 1, profile: "n/a" });
+  });
+
+  it("should apply a global timeout across the whole mapping", async () => {
+    const seen: Array<AbortSignal | undefined> = [];
+    const schema: AsyncMapperxSchema<UserDto, User> = {
+      id: "id",
+      profile: { from: "id", validate: slowLookup(200, seen) },
+    };
+
+    const safe = await mapperxSafeAsync({ id: 1 }, schema, { timeoutMs: 10 });
+
+    expect(safe.ok).toBe(false);
+    expect(safe.errors[0].cause).toBeInstanceOf(MapperxTimeoutError);
+    expect(seen[0]?.aborted).toBe(true);
+  });
+
+  it("should stop mapping when the caller's signal is aborted", async () => {
+    const controller = new AbortController();
+    const reason = new Error("request closed");
+    const seen: Array<AbortSignal | undefined> = [];
+    const schema: AsyncMapperxSchema<UserDto, User> = {
+      id: "id",
+      profile: { from: "id", validate: slowLookup(200, seen) },
+    };
+
+    const pending = mapperxAsync({ id: 1 }, schema, {
+      signal: controller.signal,
+    });
+    controller.abort(reason);
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(MapperxError);
+    expect(error.cause).toBe(reason);
+  });
+});
+
+describe("mxsAsync.cached", () => {
+  interface OrderDto {
+    id: number;
+    country_code: string;
+  }
+
+  interface Order {
+    id: number;
+    country: string;
+  }
+
+  const countryLoader = () => {
+    const calls: unknown[] = [];
+    const load = async (code: unknown) => {
+      calls.push(code);
+      await sleep(5);
+      return `Country ${code}`;
+    };
+    return { calls, load };
+  };
+
+  const orders: OrderDto[] = [
+    { id: 1, country_code: "EC" },
+    { id: 2, country_code: "PE" },
+    { id: 3, country_code: "EC" },
+    { id: 4, country_code: "EC" },
+  ];
+
+  it("should share in-flight lookups and reuse results", async () => {
+    const { calls, load } = countryLoader();
+    const schema: AsyncMapperxSchema<OrderDto, Order> = {
+      id: "id",
+      country: { from: "country_code", validate: mxsAsync.cached(load) },
+    };
+
+    const { data } = await mapperxBatchAsync(orders, schema);
+    await mapperxAsync(orders[0], schema);
+
+    expect(data.map((o) => o.country)).toEqual([
+      "Country EC",
+      "Country PE",
+      "Country EC",
+      "Country EC",
+    ]);
+    expect(calls).toEqual(["EC", "PE"]);
+  });
+
+  it("should honour ttlMs, maxEntries and a custom key", async () => {
+    const { calls, load } = countryLoader();
+    const lookup = mxsAsync.cached(load, {
+      key: (v) => String(v).toUpperCase(),
+      ttlMs: 20,
+      maxEntries: 1,
+    });
+
+    await lookup("ec");
+    await lookup("EC"); // misma key
+    await lookup("PE"); // expulsa EC (LRU)
+    await lookup("EC");
+    await sleep(30);
+    await lookup("EC"); // expirada
+
+    expect(calls).toEqual(["ec", "PE", "EC", "EC"]);
+  });
+
+  it("should not cache failures", async () => {
+    let attempts = 0;
+    const lookup = mxsAsync.cached(async () => {
+      if (++attempts === 1) throw new Error("boom");
+      return "ok";
+    });
+
+    await expect(lookup("x")).rejects.toThrow("boom");
+    await expect(lookup("x")).resolves.toBe("ok");
+  });
+
+  it("should scope the cache to a single batch", async () => {
+    const { calls, load } = countryLoader();
+    const schema: AsyncMapperxSchema<OrderDto, Order> = {
+      id: "id",
+      country: {
+        from: "country_code",
+        validate: mxsAsync.cached(load, { scope: "batch" }),
+      },
+    };
+
+    await mapperxBatchAsync(orders, schema, { concurrency: 2 });
+    await mapperxBatchAsync(orders, schema);
+
+    expect(calls).toEqual(["EC", "PE", "EC", "PE"]);
+  });
+
+  it("should not let one caller's abort fail the shared lookup", async () => {
+    const signals: Array<AbortSignal | undefined> = [];
+    const lookup = mxsAsync.cached(async (code, ctx) => {
+      signals.push(ctx?.signal);
+      await sleep(10);
+      return `Country ${code}`;
+    });
+    const controller = new AbortController();
+
+    const first = lookup("EC", {
+      signal: controller.signal,
+    } as MapperxContext);
+    const second = lookup("EC", {} as MapperxContext);
+    controller.abort(new Error("first gone"));
+
+    await expect(first).rejects.toThrow("first gone");
+    await expect(second).resolves.toBe("Country EC");
+    expect(signals).toEqual([undefined]);
+  });
+});
+
+describe("mxsAsync.batchLoader", () => {
+  interface OrderDto {
+    id: number;
+    customer_id: number;
+  }
+
+  interface Order {
+    id: number;
+    customer: string;
+  }
+
+  const orders: OrderDto[] = [
+    { id: 1, customer_id: 10 },
+    { id: 2, customer_id: 20 },
+    { id: 3, customer_id: 10 },
+    { id: 4, customer_id: 99 },
+  ];
+
+  const customersLoader = (calls: number[][]) =>
+    mxsAsync.batchLoader(async (ids: number[]) => {
+      calls.push(ids);
+      return ids.map((id) =>
+        id === 99 ? new Error(`Customer ${id} not found`) : `Customer ${id}`
+      );
+    });
+
+  it("should collapse the lookups of a batch into one loadMany call", async () => {
+    const calls: number[][] = [];
+    const schema: AsyncMapperxSchema<OrderDto, Order> = {
+      id: "id",
+      customer: { from: "customer_id", validate: customersLoader(calls) },
+    };
+
+    const { data, errors } = await mapperxBatchAsync(orders, schema);
+
+    expect(calls).toEqual([[10, 20, 99]]);
+    expect(data.map((o) => o.customer)).toEqual([
+      "Customer 10",
+      "Customer 20",
+      "Customer 10",
+    ]);
+
+    // El error de una key solo afecta a su item
+    expect(errors).toHaveLength(1);
+    expect(errors[0].index).toBe(3);
+    expect(errors[0].error).toBeInstanceOf(MapperxError);
+    expect(errors[0].error.message).toContain("Customer 99 not found");
+  });
+
+  it("should split keys by maxBatchSize and fail all keys if loadMany fails", async () => {
+    const calls: number[][] = [];
+    const loader = mxsAsync.batchLoader(
+      async (ids: number[]) => {
+        calls.push(ids);
+        if (ids.includes(99)) throw new Error("db down");
+        return ids.map((id) => `Customer ${id}`);
+      },
+      { maxBatchSize: 2 }
+    );
+    const schema: AsyncMapperxSchema<OrderDto, Order> = {
+      id: "id",
+      customer: { from: "customer_id", validate: loader },
+    };
+
+    const { data, errors } = await mapperxBatchAsync(orders, schema);
+
+    expect(calls).toEqual([[10, 20], [99]]);
+    expect(data).toHaveLength(3);
+    expect(errors[0].error.message).toContain("db down");
+  });
+
+  it("should reject a maxBatchSize that is not a positive integer", () => {
+    for (const maxBatchSize of [0, -1, NaN, 1.5]) {
+      expect(() =>
+        mxsAsync.batchLoader(async (ids: number[]) => ids, { maxBatchSize })
+      ).toThrow(RangeError);
+    }
+  });
+
+  it("should not cache results outside a batch", async () => {
+    const calls: number[][] = [];
+    const loader = customersLoader(calls);
+
+    const [a, b] = await Promise.all([loader(10), loader(10)]);
+    expect(await loader(10)).toBe("Customer 10");
+
+    expect([a, b]).toEqual(["Customer 10", "Customer 10"]);
+    expect(calls).toEqual([[10], [10]]);
+  });
+
+  it("should abort loadMany only when every waiting caller aborted", async () => {
+    const signals: AbortSignal[] = [];
+    const loader = mxsAsync.batchLoader((ids: number[], signal) => {
+      signals.push(signal);
+      return new Promise<string[]>((resolve, reject) => {
+        setTimeout(() => resolve(ids.map((id) => `Customer ${id}`)), 20);
+        signal.addEventListener("abort", () => reject(signal.reason));
+      });
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+    const ctx = (signal: AbortSignal) => ({ signal } as MapperxContext);
+
+    const a = loader(10, ctx(first.signal));
+    const b = loader(10, ctx(second.signal));
+    await sleep(5);
+
+    first.abort(new Error("first gone"));
+    await expect(a).rejects.toThrow("first gone");
+    expect(signals[0].aborted).toBe(false);
+
+    second.abort(new Error("second gone"));
+    await expect(b).rejects.toThrow("second gone");
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it("should keep loading for callers without a signal", async () => {
+    const calls: number[][] = [];
+    const loader = customersLoader(calls);
+    const controller = new AbortController();
+
+    const aborted = loader(20, { signal: controller.signal } as MapperxContext);
+    const kept = loader(20);
+    controller.abort(new Error("gone"));
+
+    await expect(aborted).rejects.toThrow("gone");
+    await expect(kept).resolves.toBe("Customer 20");
+    expect(calls).toEqual([[20]]);
+  });
+});
+
+describe("mxsAsync.withRetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Falla las primeras `failures` llamadas
+  const flaky = (failures: number) => {
+    let calls = 0;
+    const fn = async (v: unknown): Promise<string> => {
+      calls++;
+      if (calls <= failures) throw new TypeError(`attempt ${calls} failed`);
+      return String(v);
+    };
+    return { fn, calls: () => calls };
+  };
+
+  it("should wait with exponential backoff capped by maxDelayMs", async () => {
+    vi.useFakeTimers();
+    const { fn, calls } = flaky(3);
+    const delays: number[] = [];
+
+    const lookup = mxsAsync.withRetry(fn, {
+      maxRetries: 4,
+      delayMs: 100,
+      backoff: "exponential",
+      maxDelayMs: 300,
+      onRetry: (_e, _attempt, delay) => delays.push(delay),
+    });
+
+    const result = lookup("ok");
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    expect(calls()).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(300);
+    await expect(result).resolves.toBe("ok");
+    expect(delays).toEqual([100, 200, 300]);
+  });
+
+  it("should support linear backoff and jitter", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const delays: number[] = [];
+
+    const lookup = mxsAsync.withRetry(flaky(2).fn, {
+      delayMs: 100,
+      backoff: "linear",
+      jitter: true,
+      onRetry: (_e, _attempt, delay) => delays.push(delay),
+    });
+
+    const result = lookup("ok");
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("ok");
+    expect(delays).toEqual([50, 100]);
+    vi.restoreAllMocks();
+  });
+
+  it("should keep every attempt's error when retries run out", async () => {
+    const lookup = mxsAsync.withRetry(flaky(5).fn, { delayMs: 0 });
+    const error = await Promise.resolve(lookup("x")).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MapperxRetryError);
+    expect(error.errors).toHaveLength(3);
+    expect(error.errors[0]).toBeInstanceOf(TypeError);
+    expect(error.cause.message).toBe("attempt 3 failed");
+    expect(error.message).toBe(
+      "Validation failed after 3 attempts: attempt 3 failed"
+    );
+  });
+
+  it("should make a single attempt with maxRetries 1 and reject fewer", async () => {
+    const { fn, calls } = flaky(5);
+    const error = await Promise.resolve(
+      mxsAsync.withRetry(fn, { maxRetries: 1 })("x")
+    ).catch((e) => e);
+
+    expect(calls()).toBe(1);
+    expect(error.message).toBe(
+      "Validation failed after 1 attempt: attempt 1 failed"
+    );
+    expect(() => mxsAsync.withRetry(fn, 0)).toThrow(RangeError);
+    expect(() => mxsAsync.withRetry(fn, { maxRetries: NaN })).toThrow(
+      RangeError
+    );
+  });
+
+  it("should rethrow errors that shouldRetry rejects", async () => {
+    const { fn, calls } = flaky(5);
+    const lookup = mxsAsync.withRetry(fn, {
+      delayMs: 0,
+      shouldRetry: (e) => !(e instanceof TypeError),
+    });
+
+    await expect(lookup("x")).rejects.toThrow(TypeError);
+    expect(calls()).toBe(1);
+  });
+
+  it("should keep the positional signature", async () => {
+    const lookup = mxsAsync.withRetry(flaky(1).fn, 2, 0);
+    await expect(lookup("ok")).resolves.toBe("ok");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMapper, mxs, type MapperxSchema } from "../src";
+
+interface ProductDto {
+  product_id: number;
+  price: string;
+  extra?: string;
+}
+
+interface Product {
+  id: number;
+  price: number;
+}
+
+const schema: MapperxSchema<ProductDto, Product> = {
+  id: "product_id",
+  price: { from: "price", validate: mxs.number },
+};
+
+describe("createMapper", () => {
+  const productMapper = createMapper(schema, { skipInvalid: true });
+
+  it("should expose the schema and map with the default options", async () => {
+    const dto = { product_id: 1, price: "nope" };
+
+    expect(productMapper.schema).toBe(schema);
+    expect(productMapper.map(dto)).toEqual({ id: 1 });
+    expect(await productMapper.mapAsync(dto)).toEqual({ id: 1 });
+  });
+
+  it("should let each call override the default options", () => {
+    const dto = { product_id: 1, price: "nope" };
+
+    expect(() => productMapper.map(dto, { skipInvalid: false })).toThrow();
+    expect(productMapper.safeMap(dto).errors).toHaveLength(1);
+  });
+
+  it("should map batches and reverse models", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const items = [
+      { product_id: 1, price: "10" },
+      { product_id: 2, price: "20", extra: "x" },
+    ];
+
+    const sync = productMapper.mapMany(items, { strict: true });
+    const async = await productMapper.mapManyAsync(items);
+
+    expect(sync.data).toEqual(async.data);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(productMapper.toApi(sync.data[1])).toEqual({
+      product_id: 2,
+      price: 20,
+    });
+    warn.mockRestore();
+  });
+
+  it("should accept batch options in mapManyAsync", async () => {
+    const onProgress = vi.fn();
+    const items = [1, 2, 3].map((id) => ({ product_id: id, price: "5" }));
+
+    const result = await productMapper.mapManyAsync(items, {
+      concurrency: 2,
+      onProgress,
+    });
+
+    expect(result.data.map((p) => p.id)).toEqual([1, 2, 3]);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+});
@@ -1,5 +1,24 @@
-import { describe, it, expect } from "vitest";
-import { mapperx, mxs, mxc, type MapperxSchema } from "../src";
+import { describe, it, expect, vi } from "vitest";
+import {
+  mapperx,
+  mapperxSafe,
+  mapperxAsync,
+  compileMapper,
+  compileMapperAsync,
+  mapperxSafeAsync,
+  MapperxAggregateError,
+  MapperxError,
+  MapperxStrictError,
+  mapperxBatch,
+  getErrorInfo,
+  mxs,
+  mxc,
+  mxt,
+  mxtGeneral,
+  mxtNumber,
+  type MapperxSchema,
+  type MapperxContext,
+} from "../src";
 
 interface OrderDto {
   id_articulo: string;
@@ -72,3 +91,772 @@ it("should throw error if number is invalid", () => {
 
   expect(() => mapperx(dto, schema)).toThrow();
 });
+
+describe("MapperX collectErrors mode", () => {
+  const badDto: OrderDto = {
+    id_articulo: "A001",
+    precio_unitario: "NOPE",
+    cantidad: "NOPE",
+    estadoDoc: "ACTIVO",
+  };
+
+  it("should throw a MapperxAggregateError with every failure", () => {
+    try {
+      mapperx(badDto, schema, { collectErrors: true });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(MapperxAggregateError);
+      const agg = e as MapperxAggregateError<OrderModel>;
+      expect(agg.errors.map((err) => err.field)).toEqual([
+        "unitPrice",
+        "quantity",
+      ]);
+      expect(agg.value.productId).toBe("A001");
+      expect(agg.value.status).toBe("Active");
+    }
+  });
+
+  it("should return a discriminated result with mapperxSafe", async () => {
+    const sync = mapperxSafe(badDto, schema);
+    const async = await mapperxSafeAsync(badDto, schema);
+
+    expect(sync.ok).toBe(false);
+    expect(sync.errors).toHaveLength(2);
+    expect(async.errors.map((e) => e.field)).toEqual(
+      sync.errors.map((e) => e.field)
+    );
+  });
+});
+
+describe("MapperX nested error paths", () => {
+  interface GeoDto {
+    addr: { street: string; geo: { lat: string } };
+  }
+  interface GeoModel {
+    address: { street: string; geo: { lat: number } };
+  }
+
+  const geoSchema: MapperxSchema<GeoDto, GeoModel> = {
+    address: {
+      from: "addr",
+      schema: {
+        street: "street",
+        geo: {
+          from: "geo",
+          schema: { lat: { from: "lat", validate: mxs.number } },
+        },
+      },
+    },
+  };
+
+  it("should report the full path and source path once", () => {
+    const dto: GeoDto = { addr: { street: "Av. 10", geo: { lat: "x" } } };
+
+    try {
+      mapperx(dto, geoSchema);
+      expect.unreachable();
+    } catch (e) {
+      const info = getErrorInfo(e as MapperxError);
+      expect(info.path).toEqual(["address", "geo", "lat"]);
+      expect(info.sourcePath).toBe("addr.geo.lat");
+      expect(info.message).toBe('Cannot convert "x" to number');
+      expect((e as Error).message).toBe(
+        'Mapperx mapping error at "address.geo.lat" (from "addr.geo.lat"): ' +
+          'Cannot convert "x" to number'
+      );
+    }
+  });
+});
+
+describe("MapperX array-of-objects fields", () => {
+  interface InvoiceDto {
+    items: Array<{ sku: string; price: string }>;
+  }
+  interface InvoiceModel {
+    lines: Array<{ sku: string; price: number }>;
+  }
+
+  const invoiceSchema: MapperxSchema<InvoiceDto, InvoiceModel> = {
+    lines: {
+      from: "items",
+      each: { sku: "sku", price: { from: "price", validate: mxs.number } },
+    },
+  };
+
+  const dto: InvoiceDto = {
+    items: [
+      { sku: "A", price: "1.5" },
+      { sku: "B", price: "x" },
+      { sku: "C", price: "3" },
+    ],
+  };
+
+  it("should report the failing element index", () => {
+    try {
+      mapperx(dto, invoiceSchema);
+      expect.unreachable();
+    } catch (e) {
+      const err = e as MapperxError;
+      expect(err.path).toEqual(["lines", 1, "price"]);
+      expect(err.sourcePath).toBe("items[1].price");
+    }
+  });
+
+  it("should skip invalid elements when skipInvalidItems is set", async () => {
+    const lenient: MapperxSchema<InvoiceDto, InvoiceModel> = {
+      lines: {
+        from: "items",
+        each: { sku: "sku", price: { from: "price", validate: mxs.number } },
+        skipInvalidItems: true,
+      },
+    };
+
+    const result = await mapperxAsync(dto, lenient);
+    expect(result.lines.map((l) => l.sku)).toEqual(["A", "C"]);
+  });
+});
+
+describe("MapperX compiled mappers", () => {
+  it("should produce the same result and errors as mapperx", async () => {
+    const mapOrder = compileMapper(schema);
+    const dto: OrderDto = {
+      id_articulo: "A001",
+      precio_unitario: "10.5",
+      cantidad: "2",
+      estadoDoc: "ACTIVO",
+    };
+    const bad = { ...dto, cantidad: "NOPE" };
+
+    expect(mapOrder(dto)).toEqual(mapperx(dto, schema));
+    expect(await compileMapperAsync<OrderDto, OrderModel>(schema)(dto)).toEqual(
+      mapOrder(dto)
+    );
+    expect(() => mapOrder(bad)).toThrow(
+      'Mapperx mapping error at "quantity" (from "cantidad")'
+    );
+  });
+
+  it("should ignore changes made to a schema after its first use", () => {
+    type Row = { a: string; b: string };
+    type Value = { value: string };
+    const rowSchema: MapperxSchema<Row, Value> = { value: "a" };
+    const row: Row = { a: "A", b: "B" };
+
+    expect(mapperx(row, rowSchema)).toEqual({ value: "A" });
+
+    // El plan cacheado no ve la mutación; un objeto nuevo sí
+    rowSchema.value = "b";
+    expect(mapperx(row, rowSchema)).toEqual({ value: "A" });
+    expect(mapperx<Row, Value>(row, { ...rowSchema })).toEqual({ value: "B" });
+  });
+
+  it("should support recursive schemas", () => {
+    interface NodeDto {
+      name: string;
+      children: NodeDto[];
+    }
+    interface Node {
+      label: string;
+      nodes: Node[];
+    }
+
+    const nodeSchema: MapperxSchema<NodeDto, Node> = {
+      label: "name",
+      nodes: { from: "children", each: null as any },
+    };
+    (nodeSchema.nodes as any).each = nodeSchema;
+
+    const tree = compileMapper(nodeSchema)({
+      name: "root",
+      children: [{ name: "leaf", children: [] }],
+    });
+
+    expect(tree).toEqual({
+      label: "root",
+      nodes: [{ label: "leaf", nodes: [] }],
+    });
+  });
+});
+
+describe("MapperX strict mode", () => {
+  interface ProfileDto {
+    user: { name: string; address: { city: string } };
+    lines: Array<{ sku: string; qty: number }>;
+  }
+  interface Profile {
+    name: string;
+    city: string;
+    lines: Array<{ sku: string }>;
+  }
+
+  const profileSchema: MapperxSchema<ProfileDto, Profile> = {
+    name: { from: "user.name" },
+    city: { from: "user.address.city" },
+    lines: { from: "lines", each: { sku: "sku" } },
+  };
+
+  const dto = {
+    user: {
+      name: "Ana",
+      middle_name: "María",
+      address: { city: "Quito", zip: "170150" },
+    },
+    lines: [{ sku: "A1", qty: 2 }],
+    version: 3,
+  } as any;
+
+  const expected =
+    "Extra fields in source object were not mapped: " +
+    "user.middle_name, user.address.zip, lines[0].qty, version";
+
+  it("should report deeply nested unmapped paths", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    mapperx(dto, profileSchema, { strict: true });
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith(`[Mapperx] ${expected}`);
+    warn.mockRestore();
+  });
+
+  it("should report the same paths in async mode", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await mapperxAsync(dto, profileSchema, { strict: true });
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith(`[MapperxAsync] ${expected}`);
+    warn.mockRestore();
+  });
+
+  it("should treat objects consumed as a whole as fully mapped", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    mapperx(
+      { user: { name: "Ana", extra: true } },
+      { user: "user" } as MapperxSchema<any, { user: object }>,
+      { strict: true }
+    );
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should throw a MapperxStrictError in error mode", async () => {
+    const expectedFields = [
+      "user.middle_name",
+      "user.address.zip",
+      "lines[0].qty",
+      "version",
+    ];
+
+    expect(() => mapperx(dto, profileSchema, { strict: "error" })).toThrow(
+      MapperxStrictError
+    );
+    await expect(
+      mapperxAsync(dto, profileSchema, { strict: "error" })
+    ).rejects.toMatchObject({ fields: expectedFields });
+
+    const batch = mapperxBatch([dto], profileSchema, { strict: "error" });
+    expect(batch.data).toHaveLength(0);
+    expect(batch.errors[0].error.cause).toBeInstanceOf(MapperxStrictError);
+  });
+
+  it("should keep field errors when strict errors are collected", async () => {
+    interface FlatDto {
+      a: unknown;
+      extra?: number;
+    }
+    const schema: MapperxSchema<FlatDto, { a: number }> = {
+      a: { from: "a", validate: mxs.number },
+    };
+
+    const sync = mapperxSafe({ a: "x", extra: 1 }, schema, {
+      strict: "error",
+    });
+    const async = await mapperxSafeAsync({ a: "x", extra: 1 }, schema, {
+      strict: "error",
+    });
+
+    for (const result of [sync, async]) {
+      expect(result.errors.map((e) => e.field)).toEqual(["a", "unknown"]);
+      expect(result.errors[1].cause).toMatchObject({ fields: ["extra"] });
+    }
+
+    // Sin errores de campos se sigue lanzando MapperxStrictError
+    expect(() =>
+      mapperx({ a: 1, extra: 1 }, schema, {
+        strict: "error",
+        collectErrors: true,
+      })
+    ).toThrow(MapperxStrictError);
+  });
+
+  it("should route unmapped fields to a callback", () => {
+    const onUnmappedFields = vi.fn();
+
+    mapperx({ ...dto, lines: [] }, profileSchema, {
+      strict: onUnmappedFields,
+    });
+    mapperx(dto, profileSchema, { strict: "ignore" });
+
+    expect(onUnmappedFields).toHaveBeenCalledOnce();
+    expect(onUnmappedFields).toHaveBeenCalledWith(
+      ["user.middle_name", "user.address.zip", "version"],
+      { source: { ...dto, lines: [] }, mode: "sync" }
+    );
+  });
+});
+
+describe("MapperX logger and diagnostics hooks", () => {
+  interface ItemDto {
+    code: string;
+    price?: string;
+    qty?: string;
+  }
+  interface Item {
+    code: string;
+    price: number;
+    qty: number;
+    total: number;
+  }
+
+  const itemSchema: MapperxSchema<ItemDto, Item> = {
+    code: "code",
+    price: { from: "price", validate: mxs.number, default: 0 },
+    qty: { from: "qty", validate: mxs.number, required: false },
+    total: mxc((m) => m.price! * m.qty!),
+  };
+
+  it("should report mapped, default, skipped and failed fields", () => {
+    const events: string[] = [];
+    const options = {
+      skipInvalid: true,
+      onFieldMapped: (e: any) => events.push(`mapped:${e.key}=${e.value}`),
+      onDefaultUsed: (e: any) => events.push(`default:${e.key}=${e.value}`),
+      onFieldSkipped: (e: any) => events.push(`skipped:${e.key}`),
+      onFieldError: (e: any) =>
+        events.push(`error:${e.key}:${e.error.sourceField}:${e.rawValue}`),
+    };
+
+    mapperx({ code: "A1", qty: "2" }, itemSchema, options);
+    mapperx({ code: "B2", price: "x" }, itemSchema, options);
+
+    expect(events).toEqual([
+      "mapped:code=A1",
+      "default:price=0",
+      "mapped:qty=2",
+      "mapped:total=0",
+      "mapped:code=B2",
+      "error:price:price:x",
+      "skipped:price",
+      "skipped:qty",
+      "mapped:total=NaN",
+    ]);
+  });
+
+  it("should not report a throwing hook as a field failure", async () => {
+    const hookError = new Error("metrics down");
+    const options = {
+      collectErrors: true,
+      onFieldMapped: () => {
+        throw hookError;
+      },
+    };
+    const dto = { code: "A1", price: "1", qty: "2" };
+
+    expect(() => mapperx(dto, itemSchema, options)).toThrow(hookError);
+    await expect(mapperxAsync(dto, itemSchema, options)).rejects.toBe(
+      hookError
+    );
+  });
+
+  it("should send strict warnings to the configured logger", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+
+    await mapperxAsync({ code: "A1", extra: 1 } as ItemDto, itemSchema, {
+      strict: true,
+      logger,
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "[MapperxAsync] Extra fields in source object were not mapped: extra"
+    );
+  });
+
+  it("should log field events at their level with a configured logger", () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+
+    mapperx({ code: "A1", price: "x" }, itemSchema, {
+      skipInvalid: true,
+      logger,
+    });
+
+    expect(logger.debug).toHaveBeenCalledWith('[Mapperx] Field "code" mapped', {
+      key: "code",
+      sourceField: "code",
+      rawValue: "A1",
+      value: "A1",
+    });
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error.mock.calls[0][0]).toContain(
+      'Mapperx mapping error at "price"'
+    );
+    expect(logger.error.mock.calls[0][1]).toMatchObject({
+      key: "price",
+      rawValue: "x",
+    });
+    expect(logger.info.mock.calls.map((c) => c[0])).toEqual([
+      '[Mapperx] Field "price" skipped',
+      '[Mapperx] Field "qty" skipped',
+    ]);
+    expect(logger.warn).not.toHaveBeenCalled();
+
+    // Los niveles que el logger no tiene se omiten
+    const warnOnly = { warn: vi.fn() };
+    expect(
+      mapperx({ code: "B2" }, itemSchema, { logger: warnOnly })
+    ).toMatchObject({ code: "B2", price: 0 });
+  });
+});
+
+describe("MapperX array index and wildcard paths", () => {
+  interface ContactDto {
+    contacts: Array<{ email: string; phone: string }>;
+    items: Array<{ sku: string }>;
+  }
+  interface Contact {
+    primaryEmail: string;
+    lastPhone: string;
+    skus: string[];
+  }
+
+  const contactSchema: MapperxSchema<ContactDto, Contact> = {
+    primaryEmail: { from: "contacts[0].email", validate: mxs.email },
+    lastPhone: { from: "contacts[-1].phone" },
+    skus: { from: "items.*.sku" },
+  };
+
+  const dto: ContactDto = {
+    contacts: [
+      { email: "ana@mail.com", phone: "111" },
+      { email: "luis@mail.com", phone: "222" },
+    ],
+    items: [{ sku: "A1" }, { sku: "B2" }],
+  };
+
+  it("should resolve bracket, negative and wildcard paths", async () => {
+    const expected = {
+      primaryEmail: "ana@mail.com",
+      lastPhone: "222",
+      skus: ["A1", "B2"],
+    };
+
+    expect(mapperx(dto, contactSchema)).toEqual(expected);
+    expect(await mapperxAsync(dto, contactSchema)).toEqual(expected);
+  });
+
+  it("should read non-object wildcard elements as undefined", () => {
+    const mixed = { ...dto, items: ["A1", { sku: "B2" }] as any };
+
+    expect(mapperx(mixed, contactSchema).skus).toEqual([undefined, "B2"]);
+  });
+
+  it("should report only the array paths that are not consumed", () => {
+    const warn = vi.fn();
+
+    mapperx(dto, contactSchema, { strict: warn });
+
+    expect(warn.mock.calls[0][0]).toEqual([
+      "contacts[0].phone",
+      "contacts[1].email",
+    ]);
+  });
+
+  it("should type-check paths up to 7 levels deep", () => {
+    interface DeepDto {
+      a: { b: { c: { d: { e: { f: { g: { h: string } } } } } } };
+    }
+    const dto: DeepDto = {
+      a: { b: { c: { d: { e: { f: { g: { h: "deep" } } } } } } },
+    };
+
+    const seven: MapperxSchema<DeepDto, { g: { h: string } }> = {
+      g: { from: "a.b.c.d.e.f.g" },
+    };
+    const eight: MapperxSchema<DeepDto, { h: string }> = {
+      // @ts-expect-error DeepKeys corta en 7 niveles: "a.b.c.d.e.f.g.h" no es un Path<DeepDto>
+      h: { from: "a.b.c.d.e.f.g.h" },
+    };
+
+    expect(mapperx(dto, seven)).toEqual({ g: { h: "deep" } });
+    // En runtime el path sigue resolviendo; solo el tipo lo rechaza
+    expect(mapperx(dto, eight)).toEqual({ h: "deep" });
+  });
+});
+
+describe("MapperX multi-source fields", () => {
+  interface PersonDto {
+    phone?: string;
+    phone_number?: string;
+    contact: { phone?: string };
+    first_name: string;
+    last_name: string;
+  }
+  interface Person {
+    phone: string;
+    fullName: string;
+  }
+
+  it("should pick the value according to the policy", () => {
+    const schema: MapperxSchema<PersonDto, Person> = {
+      phone: {
+        from: ["phone", "phone_number", "contact.phone"],
+        policy: "coalesce-non-empty",
+      },
+      fullName: {
+        from: ["first_name", "last_name"],
+        policy: "all",
+        transform: ([first, last]) => `${first} ${last}`,
+      },
+    };
+
+    expect(
+      mapperx(
+        {
+          phone: "",
+          contact: { phone: "0999" },
+          first_name: "Ana",
+          last_name: "Ruiz",
+        },
+        schema
+      )
+    ).toEqual({ phone: "0999", fullName: "Ana Ruiz" });
+  });
+
+  it("should list every candidate path in errors", () => {
+    const schema: MapperxSchema<PersonDto, Pick<Person, "phone">> = {
+      phone: { from: ["phone", "phone_number"] },
+    };
+
+    expect(() => mapperx({ first_name: "Ana" } as PersonDto, schema)).toThrow(
+      'Mapperx mapping error at "phone" (from "phone | phone_number")'
+    );
+  });
+});
+
+describe("MapperX typed context", () => {
+  interface PriceDto {
+    amount: string;
+    lines: Array<{ label_es: string; label_en: string }>;
+  }
+  interface Price {
+    amount: string;
+    lines: Array<{ label: string }>;
+    tenantLabel: string;
+  }
+  type Locale = { locale: "es" | "en"; tenant: string };
+
+  const priceSchema: MapperxSchema<PriceDto, Price> = {
+    amount: {
+      from: "amount",
+      transform: (v, _src, ctx: MapperxContext<PriceDto, Locale>) =>
+        Number(v).toLocaleString(
+          ctx.context.locale === "es" ? "es-EC" : "en-US"
+        ),
+    },
+    lines: {
+      from: "lines",
+      each: {
+        label: {
+          from: "label_es",
+          transform: (v, src, ctx: MapperxContext<any, Locale>) =>
+            `${ctx.path.join("/")}=${
+              ctx.context.locale === "es" ? v : src.label_en
+            }`,
+        },
+      },
+    },
+    tenantLabel: mxc<Price, "tenantLabel">(
+      (_m, _src, ctx: MapperxContext<PriceDto, Locale>) =>
+        `${ctx.context.tenant}:${ctx.source.amount}`
+    ),
+  };
+
+  const dto: PriceDto = {
+    amount: "1500",
+    lines: [{ label_es: "Envío", label_en: "Shipping" }],
+  };
+
+  it("should pass the user context, path and source to callbacks", async () => {
+    const options = { context: { locale: "en", tenant: "acme" } as Locale };
+    const expected = {
+      amount: "1,500",
+      lines: [{ label: "lines/0/label=Shipping" }],
+      tenantLabel: "acme:1500",
+    };
+
+    expect(mapperx(dto, priceSchema, options)).toEqual(expected);
+    expect(await mapperxAsync(dto, priceSchema, options)).toEqual(expected);
+  });
+
+  it("should type ctx.context from the schema and forward it through pipe", () => {
+    const typedSchema: MapperxSchema<PriceDto, Price, Locale> = {
+      amount: {
+        from: "amount",
+        transform: mxtGeneral.pipe(
+          (v: string) => v.trim(),
+          (v: string, src: PriceDto, ctx?: MapperxContext<PriceDto, Locale>) =>
+            `${ctx?.context.locale}:${v}/${src.lines.length}`
+        ),
+      },
+      lines: {
+        from: "lines",
+        each: { label: { from: "label_en" } },
+      },
+      tenantLabel: mxc((_m, _src, ctx) => ctx.context.tenant.toUpperCase()),
+    };
+
+    expect(
+      mapperx(dto, typedSchema, { context: { locale: "es", tenant: "acme" } })
+    ).toEqual({
+      amount: "es:1500/1",
+      lines: [{ label: "Shipping" }],
+      tenantLabel: "ACME",
+    });
+  });
+
+  it("should localize transform errors inside pipe", () => {
+    const pipeSchema: MapperxSchema<{ n: number }, { n: number }> = {
+      n: { from: "n", transform: mxtGeneral.pipe(mxtNumber.divide(0)) },
+    };
+
+    expect(() => mapperx({ n: 4 }, pipeSchema, { messages: "es" })).toThrow(
+      /cero/
+    );
+  });
+
+  it("should pass the field context to validators adapted inside pipe", () => {
+    const pipeSchema: MapperxSchema<{ n: string }, { n: number }> = {
+      n: {
+        from: "n",
+        transform: mxtGeneral.pipe(
+          mxt.trim,
+          (v: unknown, _src: unknown, ctx?: MapperxContext) =>
+            mxs.number(v, ctx),
+          mxtNumber.round(1)
+        ),
+      },
+    };
+    const messages = { "number.type": "número inválido: {received}" };
+
+    expect(mapperx({ n: " 2.46 " }, pipeSchema)).toEqual({ n: 2.5 });
+    expect(() => mapperx({ n: " x " }, pipeSchema, { messages })).toThrow(
+      "número inválido: x"
+    );
+  });
+});
+
+describe("MapperX computed dependencies", () => {
+  interface InvoiceDto {
+    price: string;
+    qty: string;
+  }
+  interface Invoice {
+    grandTotal: number;
+    price: number;
+    qty: number;
+    tax: number;
+    subtotal: number;
+  }
+
+  const invoiceSchema: MapperxSchema<InvoiceDto, Invoice> = {
+    grandTotal: mxc.dependsOn<Invoice, "grandTotal">(
+      ["subtotal", "tax"],
+      (m) => m.subtotal! + m.tax!
+    ),
+    price: { from: "price", validate: mxs.number },
+    qty: { from: "qty", validate: mxs.number },
+    tax: mxc.transform<Invoice, "tax", "subtotal">("subtotal", (s) => s * 0.1),
+    subtotal: mxc((m) => m.price! * m.qty!),
+  };
+
+  it("should evaluate computed fields in dependency order", async () => {
+    const expected = {
+      price: 10,
+      qty: 3,
+      subtotal: 30,
+      tax: 3,
+      grandTotal: 33,
+    };
+
+    expect(mapperx({ price: "10", qty: "3" }, invoiceSchema)).toEqual(expected);
+    expect(
+      await mapperxAsync({ price: "10", qty: "3" }, invoiceSchema)
+    ).toEqual(expected);
+  });
+
+  it("should keep the schema key order in the output", async () => {
+    const keys = ["grandTotal", "price", "qty", "tax", "subtotal"];
+
+    expect(
+      Object.keys(mapperx({ price: "10", qty: "3" }, invoiceSchema))
+    ).toEqual(keys);
+    expect(
+      Object.keys(await mapperxAsync({ price: "10", qty: "3" }, invoiceSchema))
+    ).toEqual(keys);
+  });
+
+  it("should throw a clear error on dependency cycles", () => {
+    const cyclic: MapperxSchema<
+      InvoiceDto,
+      Pick<Invoice, "tax" | "subtotal">
+    > = {
+      tax: mxc.dependsOn(["subtotal"], (m) => m.subtotal! * 0.1),
+      subtotal: mxc.dependsOn(["tax"], (m) => m.tax! * 10),
+    };
+
+    expect(() => compileMapper(cyclic)).toThrow(
+      "Circular dependency between computed fields: tax → subtotal → tax"
+    );
+  });
+
+  it("should run independent async computed fields concurrently", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const slow = (value: number) => ({
+      dependsOn: [],
+      computed: async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((r) => setTimeout(r, 5));
+        running--;
+        return value;
+      },
+    });
+
+    const result = await mapperxAsync<
+      object,
+      { a: number; b: number; sum: number }
+    >(
+      {},
+      {
+        a: slow(1),
+        b: slow(2),
+        sum: mxc.combine(["a", "b"], (a, b) => a + b),
+      }
+    );
+
+    expect(result).toEqual({ a: 1, b: 2, sum: 3 });
+    expect(maxRunning).toBe(2);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  mapperx,
+  mapperxReverse,
+  partialSchema,
+  mxs,
+  mxc,
+  type MapperxSchema,
+} from "../src";
+
+interface UserDto {
+  user_id: number;
+  status: string;
+  address: {
+    city: string;
+    zip: string;
+  };
+  manager: {
+    manager_id: number;
+  };
+}
+
+interface UserModel {
+  id: number;
+  active: boolean;
+  city: string;
+  zip: string;
+  manager: { id: number };
+  label: string;
+}
+
+const schema: MapperxSchema<UserDto, UserModel> = {
+  id: "user_id",
+  active: {
+    from: "status",
+    transform: (v) => v === "A",
+    reverse: (v) => (v ? "A" : "I"),
+  },
+  city: { from: "address.city", validate: mxs.string },
+  zip: { from: "address.zip" },
+  manager: {
+    from: "manager",
+    schema: { id: "manager_id" },
+  },
+  label: mxc((m) => `${m.id} - ${m.city}`),
+};
+
+describe("MapperX Reverse Mapping", () => {
+  it("should map a model back to the DTO shape", () => {
+    const dto: UserDto = {
+      user_id: 7,
+      status: "A",
+      address: { city: "Quito", zip: "170150" },
+      manager: { manager_id: 3 },
+    };
+
+    const model = mapperx(dto, schema);
+
+    expect(mapperxReverse(model, schema)).toEqual(dto);
+  });
+
+  it("should skip undefined values unless keepUndefined is set", () => {
+    const partial = { id: 1, city: "Cuenca" };
+
+    expect(mapperxReverse(partial, schema)).toEqual({
+      user_id: 1,
+      address: { city: "Cuenca" },
+    });
+
+    expect(
+      mapperxReverse({ id: 1 }, schema, { keepUndefined: true })
+    ).toHaveProperty("status", undefined);
+  });
+
+  it("should write multi-source fields only to the first path", () => {
+    const phoneSchema: MapperxSchema<
+      { mobile?: string; contact: { phone?: string } },
+      { phone: string }
+    > = {
+      phone: { from: ["mobile", "contact.phone"] },
+    };
+
+    expect(mapperx({ contact: { phone: "099" } }, phoneSchema)).toEqual({
+      phone: "099",
+    });
+    expect(mapperxReverse({ phone: "099" }, phoneSchema)).toEqual({
+      mobile: "099",
+    });
+  });
+
+  it("should round-trip symbol source keys", () => {
+    const secret = Symbol("secret");
+    const pin = Symbol("pin");
+    type TokenDto = { [secret]: string; [pin]: string };
+    type Token = { token: string; pin: string };
+    const tokenSchema: MapperxSchema<TokenDto, Token> = {
+      token: secret,
+      pin: { from: pin, reverse: (v) => v.padStart(4, "0") },
+    };
+    const dto = { [secret]: "s3cr3t", [pin]: "0042" };
+
+    const api = mapperxReverse(mapperx(dto, tokenSchema), tokenSchema);
+
+    expect(api[secret]).toBe("s3cr3t");
+    expect(api[pin]).toBe("0042");
+    expect(Object.keys(api)).toEqual([]);
+    expect(mapperx(api, partialSchema(tokenSchema))).toEqual({
+      token: "s3cr3t",
+      pin: "0042",
+    });
+  });
+});
+
+describe("MapperX Reverse Mapping with array paths", () => {
+  it("should rebuild arrays from index and wildcard paths", () => {
+    const contactSchema: MapperxSchema<
+      { contacts: Array<{ email: string }>; items: Array<{ sku: string }> },
+      { email: string; skus: string[] }
+    > = {
+      email: { from: "contacts[0].email" },
+      skus: { from: "items.*.sku" },
+    };
+
+    expect(
+      mapperxReverse(
+        { email: "ana@mail.com", skus: ["A1", "B2"] },
+        contactSchema
+      )
+    ).toEqual({
+      contacts: [{ email: "ana@mail.com" }],
+      items: [{ sku: "A1" }, { sku: "B2" }],
+    });
+  });
+
+  it("should reject negative indexes on arrays it creates", () => {
+    const lastSchema: MapperxSchema<
+      { contacts: Array<{ email: string }> },
+      { email: string }
+    > = { email: { from: "contacts[-1].email" } };
+
+    expect(() => mapperxReverse({ email: "a@b.co" }, lastSchema)).toThrow(
+      "Cannot write index -1: the target array has 0 element(s)"
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import {
+  mapperx,
+  mapperxAsync,
+  mapperxReverse,
+  mapperxSafe,
+  mxDiscriminated,
+  MapperxError,
+  mxs,
+  extendSchema,
+  mergeSchemas,
+  pickSchema,
+  omitSchema,
+  partialSchema,
+  type MapperxSchema,
+} from "../src";
+
+interface AuditDto {
+  id: number;
+  created_at: string;
+}
+
+interface Audit {
+  id: number;
+  createdAt: Date;
+}
+
+interface UserDto extends AuditDto {
+  user_name: string;
+}
+
+interface User extends Audit {
+  name: string;
+}
+
+const auditSchema: MapperxSchema<AuditDto, Audit> = {
+  id: "id",
+  createdAt: { from: "created_at", validate: mxs.date },
+};
+
+const userFields: MapperxSchema<UserDto, Pick<User, "name">> = {
+  name: "user_name",
+};
+
+const dto: UserDto = {
+  id: 1,
+  created_at: "2024-01-01T00:00:00Z",
+  user_name: "Ana",
+};
+
+describe("Schema composition", () => {
+  it("should extend and merge schemas", () => {
+    const extended: MapperxSchema<UserDto, User> = extendSchema(
+      auditSchema,
+      userFields
+    );
+    const merged: MapperxSchema<UserDto, User> = mergeSchemas(
+      auditSchema,
+      userFields
+    );
+
+    expect(Object.keys(extended)).toEqual(["id", "createdAt", "name"]);
+    expect(mapperx(dto, merged)).toEqual(mapperx(dto, extended));
+  });
+
+  it("should pick and omit fields", () => {
+    const user = mergeSchemas(auditSchema, userFields);
+
+    expect(Object.keys(pickSchema(user, ["id", "name"]))).toEqual([
+      "id",
+      "name",
+    ]);
+    expect(Object.keys(omitSchema(user, ["createdAt"]))).toEqual([
+      "id",
+      "name",
+    ]);
+  });
+
+  it("should make every field optional", () => {
+    const patch = partialSchema(mergeSchemas(auditSchema, userFields));
+
+    expect(mapperx({ user_name: "Ana" } as UserDto, patch)).toEqual({
+      name: "Ana",
+    });
+  });
+
+  it("should keep symbol sources and recurse into nested schemas", () => {
+    const secret = Symbol("secret");
+    interface ProfileDto {
+      [secret]: string;
+      addr: { city: string; zip: string };
+      tags: Array<{ label: string }>;
+    }
+    interface Profile {
+      token: string;
+      address: { city: string; zip: string };
+      tags: Array<{ label: string }>;
+    }
+
+    const profileSchema: MapperxSchema<ProfileDto, Profile> = {
+      token: secret,
+      address: { from: "addr", schema: { city: "city", zip: "zip" } },
+      tags: { from: "tags", each: { label: "label" } },
+    };
+    const patch = partialSchema(profileSchema);
+    const dto = {
+      [secret]: "s3cr3t",
+      addr: { city: "Quito" },
+      tags: [{}, { label: "vip" }],
+    } as ProfileDto;
+
+    const result: {
+      token?: string;
+      address?: { city?: string; zip?: string };
+      tags?: Array<{ label?: string }>;
+    } = mapperx(dto, patch);
+
+    expect(result).toEqual({
+      token: "s3cr3t",
+      address: { city: "Quito" },
+      tags: [{}, { label: "vip" }],
+    });
+    expect(mapperx({ tags: [] } as unknown as ProfileDto, patch)).toEqual({
+      tags: [],
+    });
+  });
+});
+
+describe("Discriminated union schemas", () => {
+  interface CardDto {
+    type: "card";
+    id: number;
+    card_last4: string;
+  }
+
+  interface TransferDto {
+    type: "transfer";
+    id: number;
+    bank_name: string;
+  }
+
+  interface OtherDto {
+    type: string;
+    id: number;
+  }
+
+  interface CardPayment {
+    kind: "card";
+    id: number;
+    last4: string;
+  }
+
+  interface TransferPayment {
+    kind: "transfer";
+    id: number;
+    bank: string;
+  }
+
+  interface OtherPayment {
+    kind: "other";
+    id: number;
+  }
+
+  type PaymentDto = CardDto | TransferDto;
+  type Payment = CardPayment | TransferPayment;
+
+  const cardSchema: MapperxSchema<CardDto, CardPayment> = {
+    kind: "type",
+    id: "id",
+    last4: "card_last4",
+  };
+
+  const transferSchema: MapperxSchema<TransferDto, TransferPayment> = {
+    kind: "type",
+    id: "id",
+    bank: "bank_name",
+  };
+
+  const paymentSchema = mxDiscriminated("type", {
+    card: cardSchema,
+    transfer: transferSchema,
+  });
+
+  const card: PaymentDto = { type: "card", id: 1, card_last4: "4242" };
+  const transfer: PaymentDto = { type: "transfer", id: 2, bank_name: "BCE" };
+
+  it("should map each object with the schema of its variant", () => {
+    const payment: Payment = mapperx(card, paymentSchema);
+
+    expect(payment).toEqual({ kind: "card", id: 1, last4: "4242" });
+    expect(mapperx(transfer, paymentSchema)).toEqual({
+      kind: "transfer",
+      id: 2,
+      bank: "BCE",
+    });
+
+    // El Ui es una unión discriminada
+    if (payment.kind === "card") expect(payment.last4).toBe("4242");
+  });
+
+  it("should work as a nested schema and as array items", async () => {
+    interface OrderDto {
+      main: PaymentDto;
+      payments: PaymentDto[];
+    }
+
+    interface Order {
+      main: Payment;
+      payments: Payment[];
+    }
+
+    const orderSchema: MapperxSchema<OrderDto, Order> = {
+      main: { from: "main", schema: paymentSchema },
+      payments: { from: "payments", each: paymentSchema },
+    };
+    const dto: OrderDto = { main: card, payments: [transfer, card] };
+
+    const order = mapperx(dto, orderSchema, { strict: "error" });
+    expect(order.payments.map((p) => p.kind)).toEqual(["transfer", "card"]);
+    expect(await mapperxAsync(dto, orderSchema)).toEqual(order);
+  });
+
+  it("should report unknown tags with a clear error", () => {
+    const dto = { payments: [card, { type: "crypto", id: 3 }] };
+    const result = mapperxSafe<typeof dto, { payments: Payment[] }>(dto, {
+      payments: { from: "payments", each: paymentSchema },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0]).toBeInstanceOf(MapperxError);
+    expect(result.errors[0].path).toEqual(["payments", 1, "type"]);
+    expect(result.errors[0].message).toContain(
+      'Unknown "type" value "crypto". Expected one of: card, transfer'
+    );
+  });
+
+  it("should use the fallback schema for unknown tags", () => {
+    const otherSchema: MapperxSchema<OtherDto, OtherPayment> = {
+      kind: { from: "type", transform: () => "other" as const },
+      id: "id",
+    };
+    const withFallback = mxDiscriminated(
+      "type",
+      { card: cardSchema, transfer: transferSchema },
+      otherSchema
+    );
+
+    const payment: Payment | OtherPayment = mapperx(
+      { type: "cash", id: 9 } as OtherDto,
+      withFallback
+    );
+    expect(payment).toEqual({ kind: "other", id: 9 });
+  });
+
+  it("should reverse with the variant matching the Ui tag", () => {
+    expect(
+      mapperxReverse<PaymentDto, Payment>(
+        { kind: "transfer", id: 2, bank: "BCE" },
+        paymentSchema
+      )
+    ).toEqual(transfer);
+  });
+});
@@ -0,0 +1,409 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  mapperx,
+  mxs,
+  mxsExt,
+  mxtNumber,
+  setMapperxMessages,
+  formatMapperxMessage,
+  MapperxError,
+  ValidationError,
+  TransformError,
+} from "../src";
+
+/**
+ * Ejecuta un validador y devuelve el ValidationError que lanza
+ */
+const failWith = (fn: () => unknown): ValidationError => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof ValidationError) return e;
+    throw e;
+  }
+  throw new Error("Expected the validator to fail");
+};
+
+describe("ValidationError issues", () => {
+  it("should describe a simple failure as a single issue", () => {
+    const error = failWith(() => mxsExt.min(10)("4"));
+
+    expect(error.code).toBe("number.min");
+    expect(error.issues).toEqual([
+      {
+        path: [],
+        code: "number.min",
+        params: { min: 10, received: 4 },
+        message: "Value 4 is less than minimum 10",
+        expected: 10,
+        received: "4",
+      },
+    ]);
+  });
+
+  it("should report one issue per invalid row with its path", () => {
+    const rows = mxs.array(
+      mxsExt.object({ name: mxsExt.nonEmpty, price: mxsExt.positive })
+    );
+
+    const error = failWith(() =>
+      rows([
+        { name: "Pen", price: 2 },
+        { name: "", price: 3 },
+        { name: "Ink", price: -1 },
+      ])
+    );
+
+    expect(error.code).toBe("array.items");
+    expect(error.issues.map((i) => [i.path, i.code])).toEqual([
+      [[1, "name"], "string.nonEmpty"],
+      [[2, "price"], "number.positive"],
+    ]);
+    expect(error.message).toBe(
+      "Array validation failed:\n" +
+        "  [1].name: String cannot be empty\n" +
+        "  [2].price: Expected positive number, got -1"
+    );
+  });
+
+  it("should nest through record and tuple validators", () => {
+    const scores = mxsExt.record(mxsExt.tuple(mxs.string, mxsExt.integer));
+    const error = failWith(() => scores({ ana: ["a", 1.5], luis: ["b", 2] }));
+
+    expect(error.issues).toHaveLength(1);
+    expect(error.issues[0]).toMatchObject({
+      path: ["ana", 1],
+      code: "number.integer",
+      received: 1.5,
+    });
+  });
+
+  it("should treat plain errors from custom validators as custom issues", () => {
+    const even = mxs.custom((v) => {
+      if (Number(v) % 2) throw new Error("Expected even number");
+      return Number(v);
+    });
+
+    const error = failWith(() => mxs.array(even)([2, 3]));
+    expect(error.issues).toEqual([
+      { path: [1], code: "custom", message: "Expected even number" },
+    ]);
+  });
+
+  it("should report the issues of every union option", () => {
+    const error = failWith(() => mxsExt.union(mxs.number, mxs.boolean)("zz"));
+
+    expect(error.code).toBe("union.noMatch");
+    expect(error.issues.map((i) => [i.option, i.code])).toEqual([
+      [0, "number.type"],
+      [1, "boolean.type"],
+    ]);
+    expect(error.message).toBe(
+      "Value does not match any of the union types. Errors:\n" +
+        '  Option 1: Cannot convert "zz" to number\n' +
+        '  Option 2: Cannot convert "zz" to boolean. Expected true/false, 1/0, or "true"/"false"'
+    );
+
+    const nested = failWith(() =>
+      mxsExt.union(
+        mxs.boolean,
+        mxsExt.object({ id: mxs.number })
+      )({
+        id: "x",
+      })
+    );
+    expect(nested.issues.map((i) => [i.option, i.path, i.code])).toEqual([
+      [0, [], "boolean.type"],
+      [1, ["id"], "number.type"],
+    ]);
+    expect(nested.message).toContain('Option 2: id: Cannot convert "x"');
+  });
+
+  it("should expose the issues through MapperxError.cause", () => {
+    interface LinesDto {
+      lines: unknown;
+    }
+
+    const run = () =>
+      mapperx<LinesDto, { lines: number[] }>(
+        { lines: [1, "x"] },
+        { lines: { from: "lines", validate: mxs.array(mxs.number) } }
+      );
+
+    expect(run).toThrow(MapperxError);
+    try {
+      run();
+    } catch (e) {
+      const cause = (e as MapperxError).cause as ValidationError;
+      expect(cause.issues[0]).toMatchObject({
+        path: [1],
+        code: "number.type",
+      });
+    }
+  });
+});
+
+describe("Error codes and message catalogs", () => {
+  afterEach(() => {
+    setMapperxMessages("en");
+  });
+
+  interface PriceDto {
+    price: unknown;
+  }
+
+  const schema = {
+    price: { from: "price", validate: mxsExt.min(10) },
+  } as const;
+
+  it("should attach a stable code and params to built-in errors", () => {
+    const error = failWith(() => mxsExt.maxLength(3)("abcd"));
+    expect(error.code).toBe("string.maxLength");
+    expect(error.params).toEqual({ max: 3, length: 4 });
+
+    try {
+      mxtNumber.divide(0)(10);
+    } catch (e) {
+      expect(e).toBeInstanceOf(TransformError);
+      expect((e as TransformError).code).toBe("transform.divideByZero");
+    }
+  });
+
+  it("should use the global catalog", () => {
+    setMapperxMessages("es");
+
+    const error = failWith(() => mxs.array(mxsExt.positive)([1, -2]));
+    expect(error.message).toBe(
+      "La validación del array falló:\n" +
+        "  [1]: Se esperaba un número positivo, se recibió -2"
+    );
+  });
+
+  it("should localize every line of a union error", () => {
+    const union = mxsExt.union(mxs.number, mxs.boolean);
+
+    setMapperxMessages("es");
+    const error = failWith(() => union("zz"));
+    expect(error.message).toContain("Opción 1: ");
+    expect(error.message).toContain("Opción 2: ");
+    expect(error.message).not.toContain("Option");
+
+    // Las mismas opciones del mapeo formatean la cabecera y cada línea
+    const ctx = {
+      options: {
+        messages: {
+          "union.noMatch": "no match:\n{errors}",
+          "union.option": "#{option} {message}",
+        },
+      },
+    } as any;
+    const scoped = failWith(() => union("zz", ctx));
+    expect(scoped.message).toMatch(/^no match:\n  #1 .+\n  #2 .+$/);
+  });
+
+  it("should let a mapping override the messages", () => {
+    const run = (messages?: any) =>
+      mapperx<PriceDto, { price: number }>({ price: 4 }, schema, {
+        messages,
+      });
+
+    expect(() => run("es")).toThrow("El valor 4 es menor que el mínimo 10");
+    expect(() =>
+      run((code: string, params: any) => `${code}:${params.min}`)
+    ).toThrow("number.min:10");
+
+    // Un catálogo parcial cae al global para los demás códigos
+    expect(() => run({ "string.email": "bad email" })).toThrow(
+      "Value 4 is less than minimum 10"
+    );
+  });
+
+  it("should let custom validators register their own codes", () => {
+    const even = mxs.custom(
+      (val, ctx) => {
+        const n = mxs.number(val, ctx);
+        if (n % 2 !== 0) mxs.fail("number.even", val, { received: n }, ctx);
+        return n;
+      },
+      {
+        en: { "number.even": "Expected even number, got {received}" },
+        es: {
+          "number.even": "Se esperaba un número par, se recibió {received}",
+        },
+      }
+    );
+
+    expect(failWith(() => even(3)).message).toBe("Expected even number, got 3");
+
+    setMapperxMessages("es");
+    const error = failWith(() => even(5));
+    expect(error.code).toBe("number.even");
+    expect(error.message).toBe("Se esperaba un número par, se recibió 5");
+  });
+
+  it("should keep custom messages on the validator instance", () => {
+    const parity = (message: string) =>
+      mxs.custom((val) => mxs.fail("lib.parity", val, { received: val }), {
+        en: { "lib.parity": message },
+      });
+    const libA = parity("A: {received} is odd");
+    const libB = parity("B: {received} is odd");
+
+    expect(failWith(() => libA(1)).message).toBe("A: 1 is odd");
+    expect(failWith(() => libB(1)).message).toBe("B: 1 is odd");
+    expect(formatMapperxMessage("lib.parity")).toBe("lib.parity");
+
+    // options.messages del mapeo tiene prioridad
+    expect(() =>
+      mapperx(
+        { n: 3 },
+        { n: { from: "n", validate: libA } },
+        { messages: { "lib.parity": "override {received}" } }
+      )
+    ).toThrow("override 3");
+  });
+});
+
+describe("Validator combinators", () => {
+  it("should pipe validators and transforms in order", () => {
+    const contactEmail = mxs.pipe(
+      mxs.string,
+      (s) => s.trim().toLowerCase(),
+      mxsExt.nonEmpty,
+      mxsExt.maxLength(80),
+      mxs.email
+    );
+
+    expect(contactEmail("  Ana@Example.COM ")).toBe("ana@example.com");
+
+    const error = failWith(() => contactEmail("   "));
+    expect(error.code).toBe("string.nonEmpty");
+    expect(error.message).toBe("String cannot be empty");
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: [], code: "string.nonEmpty", step: 2 }),
+    ]);
+  });
+
+  it("should report every failing validator of mxs.all", () => {
+    const quantity = mxs.all(mxsExt.integer, mxsExt.positive, mxsExt.max(99));
+
+    expect(quantity("12")).toBe(12);
+    expect(failWith(() => quantity(150)).issues[0].step).toBe(2);
+
+    const error = failWith(() => quantity(-1.5));
+    expect(error.code).toBe("all.failed");
+    expect(error.message).toBe(
+      "Value failed 2 validations:\n" +
+        "  - Expected integer, got -1.5\n" +
+        "  - Expected positive number, got -1.5"
+    );
+    expect(error.issues.map((i) => [i.code, i.step])).toEqual([
+      ["number.integer", 0],
+      ["number.positive", 1],
+    ]);
+  });
+
+  it("should refine the output with a message or a catalog code", () => {
+    const even = mxs.refine(mxs.number, (n) => n % 2 === 0, "Expected even");
+    expect(even("4")).toBe(4);
+
+    const error = failWith(() => even(3));
+    expect(error.code).toBe("refine.failed");
+    expect(error.message).toBe("Expected even");
+
+    const status = mxs.refine(
+      mxs.string,
+      (s): s is "open" | "closed" => s === "open" || s === "closed"
+    );
+    const value: "open" | "closed" = status("open");
+    expect(value).toBe("open");
+    expect(() => status("draft")).toThrow("Value draft failed refinement");
+  });
+
+  it("should preprocess values and apply defaults", () => {
+    const tags = mxs.default(
+      mxs.preprocess(
+        (val) => (typeof val === "string" ? val.split(",") : val),
+        mxs.array(mxs.string)
+      ),
+      []
+    );
+
+    expect(tags("a,b")).toEqual(["a", "b"]);
+    expect(tags(undefined)).toEqual([]);
+
+    const error = failWith(() => tags(5));
+    expect(error.code).toBe("array.type");
+    expect(error.issues[0].step).toBe(1);
+  });
+
+  it("should point nested issues at the failing step", () => {
+    const prices = mxs.pipe(mxs.array(mxsExt.positive), (list) =>
+      list.reduce((sum, n) => sum + n, 0)
+    );
+
+    const error = failWith(() => prices([1, -2]));
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: [1], code: "number.positive", step: 0 }),
+    ]);
+  });
+});
+
+describe("Fluent validator builder", () => {
+  it("should chain number modifiers", () => {
+    const score = mxs.number().int().min(0).max(100).optional();
+
+    expect(score("42")).toBe(42);
+    expect(score(undefined)).toBeUndefined();
+    expect(failWith(() => score(4.5)).code).toBe("number.integer");
+    expect(failWith(() => score(120)).message).toBe(
+      "Value 120 is greater than maximum 100"
+    );
+
+    // Tipado: optional() añade undefined
+    const value: number | undefined = score(1);
+    expect(value).toBe(1);
+  });
+
+  it("should chain string modifiers and transforms", () => {
+    const email = mxs.string().trim().lowercase().email().max(120);
+
+    expect(email("  Ana@Example.COM ")).toBe("ana@example.com");
+    expect(failWith(() => email("nope")).code).toBe("string.email");
+    expect(failWith(() => email("a".repeat(120) + "@x.io")).code).toBe(
+      "string.maxLength"
+    );
+  });
+
+  it("should narrow the output type", () => {
+    const status = mxs.string().trim().oneOf("open", "closed").default("open");
+    const value: "open" | "closed" = status(" closed ");
+
+    expect(value).toBe("closed");
+    expect(status(null)).toBe("open");
+
+    const even = mxs
+      .number()
+      .nullable()
+      .refine((n) => n % 2 === 0, "Expected even");
+    expect(even(null)).toBeNull();
+    expect(() => even(3)).toThrow("Expected even");
+  });
+
+  it("should keep builders immutable and plug into schemas", () => {
+    const base = mxs.number();
+    const positive = base.positive();
+
+    expect(base(-1)).toBe(-1);
+    expect(() => positive(-1)).toThrow("Expected positive number, got -1");
+
+    // Sin argumentos es un builder; con valor sigue validando
+    expect(mxs.number("7")).toBe(7);
+
+    const result = mapperx<{ age: string }, { age: number }>(
+      { age: "30" },
+      { age: { from: "age", validate: mxs.number().int().range(0, 150) } }
+    );
+    expect(result).toEqual({ age: 30 });
+  });
+});